@@ -1,137 +1,389 @@
-import { PageMetadata, saveBookMetadata, savePagesToMarkdown } from "lib/md";
-import { ensureFolderExists, sanitizeFileName } from "lib/utils";
+import { BookMetadata, PageContentTransform, PageMetadata, saveBookMetadata, saveBookPages, savePagesToMarkdown, ServerBook, ServerPage } from "lib/md";
+import { ensureFolderExists, sanitizeFileName, waitForFrontMatter } from "lib/utils";
 import { App, Notice, TFile } from "obsidian";
-import { WikiDocsPluginSettings } from "./config";
+import { WikiDocsPluginSettings, WikiDocsProfile } from "./config";
+import { toApiError, WikiDocsAuthError, WikiDocsNetworkError, WikiDocsNotFoundError, WikiDocsProfileError } from "./errors";
+import { SyncIndex } from "./sync-index";
+import { encodeMultipart, HttpResponse, HttpTransport, isOk, RequestUrlTransport } from "./transport";
+
+// 다시 시도할 때의 대기 시간 (지수 백오프)
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 10_000;
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface RequestOptions {
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string | ArrayBuffer;
+	// 같은 요청을 여러 번 보내도 결과가 같은지 (생성 요청은 연결 오류 시 다시 보내지 않는다)
+	idempotent?: boolean;
+}
+
+// 블로그 정보 (GET /blog/profile/)
+export interface BlogProfile {
+	id: number;
+	url: string;
+	name: string;
+}
+
+// 토큰으로 인증된 계정 (GET /users/me/)
+export interface WikiDocsAccount {
+	id: number;
+	username: string;
+}
+
+// 연결 테스트 결과
+export interface ConnectionInfo {
+	account: WikiDocsAccount;
+	bookCount: number;
+	blog: BlogProfile | null;
+}
+
+// 서버에 보관된 페이지의 버전 (본문은 버전 하나를 조회할 때만 있다)
+export interface PageRevision {
+	id: number;
+	author: string;
+	created_at: string;
+	subject?: string;
+	content?: string;
+}
+
+// 블로그 목록의 글 (본문은 글 하나를 조회할 때만 있다)
+export interface BlogListItem {
+	id: number;
+	title: string;
+	is_public: boolean;
+}
+
+// 요청 제한 시간 초과
+class TimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => reject(new TimeoutError()), ms);
+		promise.then(
+			(value) => {
+				clearTimeout(timer);
+				resolve(value);
+			},
+			(error) => {
+				clearTimeout(timer);
+				reject(error);
+			}
+		);
+	});
+}
 
 export class ApiClient {
 	private settings: WikiDocsPluginSettings;
+	private transport: HttpTransport;
+	private profileName: string | null; // null이면 기본 프로필
 
-	constructor(settings: WikiDocsPluginSettings) {
+	constructor(settings: WikiDocsPluginSettings, transport: HttpTransport = new RequestUrlTransport(), profileName: string | null = null) {
 		this.settings = settings;
+		this.transport = transport;
+		this.profileName = profileName;
+	}
+
+	/**
+	 * 같은 설정과 transport로 profileName 프로필의 계정을 쓰는 클라이언트를 반환한다.
+	 */
+	withProfile(profileName: string | null): ApiClient {
+		return new ApiClient(this.settings, this.transport, profileName);
+	}
+
+	/**
+	 * 요청에 쓰는 프로필. 책이나 블로그에 연결된 프로필이 삭제되었으면 다른 계정으로 보내지 않도록 WikiDocsProfileError를 던진다.
+	 */
+	get profile(): WikiDocsProfile {
+		const name = this.profileName ?? this.settings.defaultProfile;
+		const profile = this.settings.profiles.find((profile) => profile.name === name);
+		if (!profile) {
+			throw new WikiDocsProfileError(name);
+		}
+		return profile;
 	}
 
-	async fetchWithAuth(endpoint: string, options: RequestInit = {}): Promise<Response> {
-		const token = this.settings.apiToken;
+	/**
+	 * 인증 헤더를 붙여서 요청한다. 연결 오류, 시간 초과, 429, 502~504 응답은 백오프 후 다시 시도한다.
+	 * 멱등이 아닌 요청은 서버가 처리하지 않은 것이 확실한 429와 Retry-After가 있는 503만 다시 보낸다.
+	 * 연결하지 못하면 WikiDocsNetworkError를 던지고, 그 밖의 응답은 그대로 반환한다.
+	 */
+	async fetchWithAuth(endpoint: string, options: RequestOptions = {}): Promise<HttpResponse> {
+		const { apiBaseUrl, apiToken: token } = this.profile;
 	
 		if (!token) {
-			throw new Error("API token is not set. Please configure the plugin.");
+			throw new WikiDocsAuthError("API token is not set", 0);
 		}
 	
-		const baseUrl = this.settings.apiBaseUrl.replace(/\/+$/, ""); // 끝 슬래시 제거
+		const baseUrl = apiBaseUrl.replace(/\/+$/, ""); // 끝 슬래시 제거
 		const sanitizedEndpoint = endpoint.replace(/^\/+/, ""); // 시작 슬래시 제거
 	
 		const url = `${baseUrl}/${sanitizedEndpoint}`;
+		const method = (options.method ?? "GET").toUpperCase();
+		// 게이트웨이 오류(502, 504)나 연결 오류는 서버가 이미 처리했을 수 있다.
+		const isIdempotent = options.idempotent ?? method !== "POST";
 		const headers = {
 			...options.headers,
 			Authorization: `Token ${token}`,
 		};
-	
-		return fetch(url, {
-			...options,
-			headers,
-		});
+
+		for (let attempt = 0; ; attempt++) {
+			const canRetry = attempt < this.settings.maxRetries;
+			let delay = Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY) + Math.random() * 250;
+
+			try {
+				const response = await withTimeout(
+					this.transport.request({ url, method, headers, body: options.body }),
+					this.settings.requestTimeout * 1000
+				);
+
+				const retryAfter = Number(response.headers["retry-after"]);
+				const isRetryableStatus = response.status === 429 || (response.status === 503 && retryAfter > 0) ||
+					(isIdempotent && (response.status === 502 || response.status === 503 || response.status === 504));
+				if (!canRetry || !isRetryableStatus) {
+					return response;
+				}
+
+				if ((response.status === 429 || response.status === 503) && retryAfter > 0) {
+					delay = retryAfter * 1000;
+				}
+				console.warn(`Retrying ${method} ${endpoint} after HTTP ${response.status} (${attempt + 1}/${this.settings.maxRetries})`);
+			} catch (error) {
+				const timedOut = error instanceof TimeoutError;
+				if (!canRetry || !isIdempotent) {
+					throw new WikiDocsNetworkError(
+						`${method} ${endpoint} failed`,
+						timedOut ? `${this.settings.requestTimeout}초 안에 응답이 없습니다.` : String(error),
+						timedOut
+					);
+				}
+				console.warn(`Retrying ${method} ${endpoint} after ${timedOut ? "timeout" : "network error"} (${attempt + 1}/${this.settings.maxRetries})`, error);
+			}
+
+			await sleep(delay);
+		}
+	}
+
+	/**
+	 * 요청 결과를 JSON으로 반환한다. 실패한 응답은 종류에 맞는 WikiDocsApiError로 던진다.
+	 */
+	async requestJson<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+		const response = await this.fetchWithAuth(endpoint, options);
+		if (!isOk(response)) {
+			throw toApiError(response, `${options.method ?? "GET"} ${endpoint} failed`);
+		}
+		return (response.text ? JSON.parse(response.text) : {}) as T;
+	}
+
+	/**
+	 * 프로필의 서버 주소와 토큰으로 연결해 보고 계정 정보를 반환한다. 실패하면 WikiDocsApiError를 던진다.
+	 * 블로그를 만들지 않은 계정은 blog가 null이다.
+	 */
+	async testConnection(): Promise<ConnectionInfo> {
+		const account = await this.requestJson<WikiDocsAccount>(`/users/me/`);
+		const books = await this.requestJson<unknown[]>(`/books/`);
+		let blog: ConnectionInfo["blog"] = null;
+		try {
+			blog = await this.requestJson<BlogProfile>(`/blog/profile/`);
+		} catch (error) {
+			if (!(error instanceof WikiDocsNotFoundError)) {
+				throw error;
+			}
+		}
+		return { account, bookCount: books.length, blog };
+	}
+
+	/**
+	 * 블로그 목록을 마지막 쪽까지 읽어 모든 글을 반환한다. (최근 글부터)
+	 */
+	async getAllBlogPosts(): Promise<BlogListItem[]> {
+		const posts: BlogListItem[] = [];
+		for (let page = 1; ; page++) {
+			let data;
+			try {
+				data = await this.requestJson<{ blog_pages: BlogListItem[] }>(`/blog/list/${page}`);
+			} catch (error) {
+				// 마지막 쪽 다음 쪽은 404로 응답한다.
+				if (page > 1 && error instanceof WikiDocsNotFoundError) {
+					break;
+				}
+				throw error;
+			}
+			if (data.blog_pages.length === 0) {
+				break;
+			}
+			posts.push(...data.blog_pages);
+		}
+		return posts;
+	}
+
+	/**
+	 * 블로그에서 쓰고 있는 태그를 반환한다.
+	 */
+	async getBlogTags(): Promise<string[]> {
+		const tags = await this.requestJson<unknown[]>(`/blog/tags/`);
+		return tags.map((tag) => String(tag));
 	}
 
+	/**
+	 * 위키독스 이미지 등 인증이 필요 없는 파일을 내려받는다.
+	 */
+	async download(url: string): Promise<ArrayBuffer> {
+		const response = await withTimeout(
+			this.transport.request({ url, method: "GET", headers: {} }),
+			this.settings.requestTimeout * 1000
+		);
+		if (!isOk(response)) {
+			throw toApiError(response, `GET ${url} failed`);
+		}
+		return response.arrayBuffer;
+	}
+
+	/**
+	 * 페이지를 저장하고 페이지 id를 반환한다. (id가 -1이면 새 페이지를 만든다)
+	 */
     async updatePageOnServer(metadata: PageMetadata, content: string): Promise<number> {
 		// 요청 데이터 구성
 		const data = {
 			id: metadata.id, // 페이지 ID
 			book_id: metadata.book_id,
             parent_id: metadata.parent_id,
+			order: metadata.order, // 형제 페이지 사이의 순서
 			subject: metadata.subject, // 제목 (필수 항목)
 			content: content.trim(), // 내용 (필수 항목)
 			open_yn: metadata.open_yn,
 		};
 	
 		// 요청 전송
-		const response = await this.fetchWithAuth(`/pages/${metadata.id}/`, {
+		const result = await this.requestJson<{ id: number }>(`/pages/${metadata.id}/`, {
 			method: "PUT",
 			headers: {
 				"Content-Type": "application/json",
 			},
 			body: JSON.stringify(data),
+			idempotent: metadata.id != -1, // 새 페이지는 중복 생성되지 않도록 다시 보내지 않는다.
 		});
-	
-		// 결과 처리
-		if (response.ok) {
-            const data = await response.json();
-            return data.id;
-		} else {
-			const errorText = await response.text();
-			console.error(`Failed to update page ${metadata.id}: ${errorText}`);
-            return -1;
-		}
+		return result.id;
 	}
 
-    /**
-	 * Upload images to the server for the given page ID.
+	/**
+	 * 페이지 하나를 본문과 함께 가져온다. 본문이 없는 응답은 페이지를 비우지 않도록 오류로 던진다.
 	 */
-	async uploadImagesForPage(app: App, pageId: number, imageFiles: TFile[]): Promise<Record<string, string>> {
-		const imageMap: Record<string, string> = {};
-	
-		for (const file of imageFiles) {
-			const arrayBuffer = await app.vault.readBinary(file);
-			const formData = new FormData();
-			formData.append("file", new Blob([arrayBuffer]), file.name);
-			formData.append("page_id", pageId.toString());
-	
-			const response = await this.fetchWithAuth(`/images/upload/`, {
-				method: "POST",
-				body: formData,
-			});
-	
-			if (!response.ok) {
-				throw new Error(`Failed to upload image: ${file.name}`);
-			}
-	
-			const data = await response.json();
-			imageMap[file.path] = data.url; // 서버에서 받은 URL 매핑
+	async getPageFromServer(pageId: number): Promise<ServerPage & { content: string }> {
+		const page = await this.requestJson<ServerPage>(`/pages/${pageId}/`);
+		if (typeof page.content !== "string") {
+			throw new Error(`GET /pages/${pageId}/ returned no content`);
 		}
-	
-		return imageMap;
+		return { ...page, content: page.content };
+	}
+
+	async createBookOnServer(subject: string): Promise<ServerBook> {
+		return await this.requestJson<ServerBook>(`/books/`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ subject }),
+		});
+	}
+
+	async updateBookOnServer(metadata: BookMetadata, image: string): Promise<void> {
+		await this.requestJson(`/books/${metadata.id}/`, {
+			method: "PUT",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				subject: metadata.title,
+				summary: metadata.description,
+				copyright: metadata.copyright,
+				open_yn: metadata.open_yn,
+				ad_yn: metadata.ad_yn,
+				image: image, // 표지 이미지 URL (빈 값이면 표지 삭제)
+			}),
+		});
 	}
 
 	/**
-	 * Upload images to the server for the given page ID.
+	 * 페이지의 버전 목록을 최근 버전부터 반환한다.
 	 */
-	async uploadImagesForBlog(app: App, blogId: number, imageFiles: TFile[]): Promise<Record<string, string>> {
+	async getPageHistory(pageId: number): Promise<PageRevision[]> {
+		const revisions = await this.requestJson<PageRevision[]>(`/pages/${pageId}/history/`);
+		return revisions.sort((a, b) => b.id - a.id);
+	}
+
+	async getPageRevision(pageId: number, revisionId: number): Promise<PageRevision> {
+		return await this.requestJson(`/pages/${pageId}/history/${revisionId}/`);
+	}
+
+	async deletePageOnServer(pageId: number): Promise<void> {
+		await this.requestJson(`/pages/${pageId}/`, {
+			method: "DELETE",
+		});
+	}
+
+	// 이미지를 하나씩 업로드하고 vault 경로별 서버 URL을 반환한다.
+	private async uploadImageFiles(app: App, endpoint: string, fields: Record<string, string>, imageFiles: TFile[]): Promise<Record<string, string>> {
 		const imageMap: Record<string, string> = {};
 	
 		for (const file of imageFiles) {
-			const arrayBuffer = await app.vault.readBinary(file);
-			const formData = new FormData();
-			formData.append("file", new Blob([arrayBuffer]), file.name);
-			formData.append("blog_id", blogId.toString());
+			const { body, contentType } = encodeMultipart({
+				file: { fileName: file.name, data: await app.vault.readBinary(file) },
+				...fields,
+			});
 	
-			const response = await this.fetchWithAuth(`/blog/images/upload/`, {
+			const data = await this.requestJson<{ url: string }>(endpoint, {
 				method: "POST",
-				body: formData,
+				headers: {
+					"Content-Type": contentType,
+				},
+				body,
 			});
-	
-			if (!response.ok) {
-				throw new Error(`Failed to upload image: ${file.name}`);
-			}
-	
-			const data = await response.json();
 			imageMap[file.path] = data.url; // 서버에서 받은 URL 매핑
 		}
 	
 		return imageMap;
 	}
 
-	async downloadBook(app:App, bookId: number) {
-		const response = await this.fetchWithAuth(`/books/${bookId}/`);
-		if (!response.ok) {
-			new Notice("책 내려받기가 실패했습니다.");
-			return;
-		}
+    /**
+	 * Upload images to the server for the given page ID.
+	 */
+	async uploadImagesForPage(app: App, pageId: number, imageFiles: TFile[]): Promise<Record<string, string>> {
+		return this.uploadImageFiles(app, `/images/upload/`, { page_id: pageId.toString() }, imageFiles);
+	}
+
+	/**
+	 * Upload images to the server for the given book ID.
+	 */
+	async uploadImagesForBook(app: App, bookId: number, imageFiles: TFile[]): Promise<Record<string, string>> {
+		return this.uploadImageFiles(app, `/images/upload/`, { book_id: bookId.toString() }, imageFiles);
+	}
+
+	/**
+	 * Upload images to the server for the given blog ID.
+	 */
+	async uploadImagesForBlog(app: App, blogId: number, imageFiles: TFile[]): Promise<Record<string, string>> {
+		return this.uploadImageFiles(app, `/blog/images/upload/`, { blog_id: blogId.toString() }, imageFiles);
+	}
 
-		const bookData = await response.json();
+	async downloadBook(app:App, bookId: number, syncIndex: SyncIndex, transform?: PageContentTransform) {
+		const bookData = await this.requestJson<ServerBook>(`/books/${bookId}/`);
 		const folderPath = sanitizeFileName(bookData.subject);
 
 		await ensureFolderExists(folderPath);
-		await saveBookMetadata(folderPath, bookId, bookData.subject);
-		await savePagesToMarkdown(app, bookData.pages, folderPath);
+		await saveBookMetadata(folderPath, bookData, this.profile.name);
+		// 페이지 본문을 바꿀 때 metadata.md의 프로필을 읽는다.
+		const metadataFile = app.vault.getAbstractFileByPath(`${folderPath}/metadata.md`);
+		if (metadataFile instanceof TFile) {
+			await waitForFrontMatter(metadataFile);
+		}
+		await saveBookPages(bookId, bookData.pages);
+		syncIndex.addBook(bookId);
+		await savePagesToMarkdown(app, bookData.pages, folderPath, syncIndex, transform);
 
 		new Notice(`"${bookData.subject}" 책을 성공적으로 내려받았습니다!`);
 	}
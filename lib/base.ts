@@ -0,0 +1,84 @@
+import { normalizePath } from "obsidian";
+
+// 마지막 동기화 시점의 페이지 내용(base)을 플러그인 폴더에 보관한다.
+// 3-way 병합의 기준으로 사용된다.
+
+// 마지막 동기화 시점에 서버에 있던 페이지 목록
+export interface BasePage {
+    id: number;
+    subject: string;
+    parent_id: number;
+}
+
+// 플러그인 폴더 (manifest.dir). 폴더 이름은 설치 방법에 따라 다를 수 있다.
+let pluginDir: string | null = null;
+
+export function setPluginDir(dir: string) {
+    pluginDir = dir;
+}
+
+function getBaseFolderPath(bookId: number): string {
+    return normalizePath(`${pluginDir ?? `${this.app.vault.configDir}/plugins/wikidocs`}/base/${bookId}`);
+}
+
+function getBaseFilePath(bookId: number, pageId: number): string {
+    return `${getBaseFolderPath(bookId)}/${pageId}.md`;
+}
+
+export async function saveBaseContent(bookId: number, pageId: number, content: string): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const folderPath = getBaseFolderPath(bookId);
+    if (!(await adapter.exists(folderPath))) {
+        await adapter.mkdir(folderPath);
+    }
+    await adapter.write(getBaseFilePath(bookId, pageId), content);
+}
+
+export async function readBaseContent(bookId: number, pageId: number): Promise<string | null> {
+    const adapter = this.app.vault.adapter;
+    const filePath = getBaseFilePath(bookId, pageId);
+    if (!(await adapter.exists(filePath))) {
+        return null;
+    }
+    return await adapter.read(filePath);
+}
+
+export async function removeBaseContent(bookId: number, pageId: number): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const filePath = getBaseFilePath(bookId, pageId);
+    if (await adapter.exists(filePath)) {
+        await adapter.remove(filePath);
+    }
+}
+
+export async function saveBasePages(bookId: number, pages: BasePage[]): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const folderPath = getBaseFolderPath(bookId);
+    if (!(await adapter.exists(folderPath))) {
+        await adapter.mkdir(folderPath);
+    }
+    await adapter.write(`${folderPath}/pages.json`, JSON.stringify(pages));
+}
+
+export async function readBasePages(bookId: number): Promise<BasePage[]> {
+    const adapter = this.app.vault.adapter;
+    const filePath = `${getBaseFolderPath(bookId)}/pages.json`;
+    if (!(await adapter.exists(filePath))) {
+        return [];
+    }
+    return JSON.parse(await adapter.read(filePath));
+}
+
+// id가 같은 페이지는 바꾸고, 없는 페이지는 추가한다.
+export async function updateBasePages(bookId: number, pages: BasePage[]): Promise<void> {
+    const basePages = await readBasePages(bookId);
+    for (const page of pages) {
+        const index = basePages.findIndex((basePage) => basePage.id === page.id);
+        if (index >= 0) {
+            basePages[index] = page;
+        } else {
+            basePages.push(page);
+        }
+    }
+    await saveBasePages(bookId, basePages);
+}
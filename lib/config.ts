@@ -1,9 +1,51 @@
-export interface WikiDocsPluginSettings {
+import { RemoteImage } from "./images";
+import { SyncIndexData } from "./sync-index";
+
+// 위키독스 계정 (서버 주소와 API 토큰)
+export interface WikiDocsProfile {
+	name: string;
 	apiBaseUrl: string;
 	apiToken: string;
 }
 
+export interface WikiDocsPluginSettings {
+	profiles: WikiDocsProfile[];
+	defaultProfile: string; // 프로필이 연결되지 않은 책과 블로그에 쓰는 프로필 이름
+	deletionQueue: Record<string, number[]>; // 책 id별 삭제 대기 중인 페이지 id
+	attachmentFolder: string; // 책 폴더 기준 이미지 폴더
+	remoteImages: Record<string, RemoteImage>; // vault 경로별 서버 이미지
+	conversionRules: Record<string, boolean>; // 마크다운 변환 규칙 id별 사용 여부
+	requestTimeout: number; // 요청 제한 시간 (초)
+	maxRetries: number; // 일시적인 오류가 났을 때 다시 시도하는 횟수
+	syncIndex: SyncIndexData; // 책별 페이지 동기화 상태
+	autoSyncBooks: number[]; // 자동 동기화를 켠 책 id
+	autoSyncInterval: number; // 자동으로 내려받는 주기 (분)
+	autoPushDelay: number; // 마지막 편집 후 자동으로 보내기까지 기다리는 시간 (초)
+	blogInlineTags: boolean; // 블로그 글 본문의 #태그를 블로그 태그에 더해서 보낼지
+	sendVisibilityNow: boolean; // 페이지 공개 여부를 바꾸면 바로 서버에 보낼지
+}
+
+// 프로필이 없던 이전 버전의 설정 (서버 주소와 토큰을 하나만 저장했다)
+export interface LegacySettings extends Partial<WikiDocsPluginSettings> {
+	apiBaseUrl?: string;
+	apiToken?: string;
+}
+
+export const DEFAULT_API_BASE_URL = "https://wikidocs.net/napi";
+
 export const DEFAULT_SETTINGS: WikiDocsPluginSettings = {
-	apiBaseUrl: "https://wikidocs.net/napi",
-	apiToken: "",
+	profiles: [{ name: "기본", apiBaseUrl: DEFAULT_API_BASE_URL, apiToken: "" }],
+	defaultProfile: "기본",
+	deletionQueue: {},
+	attachmentFolder: "images",
+	remoteImages: {},
+	conversionRules: {},
+	requestTimeout: 30,
+	maxRetries: 3,
+	syncIndex: {},
+	autoSyncBooks: [],
+	autoSyncInterval: 10,
+	autoPushDelay: 30,
+	blogInlineTags: false,
+	sendVisibilityNow: true,
 };
@@ -0,0 +1,229 @@
+import { App, TFile } from "obsidian";
+
+import { getPureContent } from "./md";
+
+// Obsidian 마크다운 <-> 위키독스 마크다운 변환 규칙
+// 코드 블록(```, ~~~)과 수식 블록($$)은 어떤 규칙도 변경하지 않는다.
+
+export interface ConversionContext {
+    app: App;
+    file: TFile; // 변환 중인 페이지
+}
+
+// 내려받을 때의 변환 정보
+export interface LocalConversionContext {
+    localContent: string | null; // 지금의 로컬 본문 (아직 없는 페이지는 null)
+}
+
+export interface ConversionRule {
+    id: string;
+    name: string;
+    description: string;
+    defaultEnabled: boolean;
+    // block: 코드/수식 블록만 보호, inline: 인라인 코드(`...`)도 보호
+    scope: "block" | "inline";
+    toServer(text: string, context: ConversionContext): string | Promise<string>;
+    toLocal?(text: string, context: LocalConversionContext): string;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+}
+
+// 보호 구간(코드/수식 블록)을 제외한 텍스트에만 fn을 적용
+async function mapBlockText(content: string, fn: (text: string) => string | Promise<string>): Promise<string> {
+    const segments: { text: string; protected: boolean }[] = [];
+    let buffer: string[] = [];
+    let block: string[] = [];
+    let fence: string | null = null;
+
+    const flush = () => {
+        if (buffer.length > 0) {
+            segments.push({ text: buffer.join("\n"), protected: false });
+            buffer = [];
+        }
+    };
+
+    for (const line of content.split("\n")) {
+        const trimmed = line.trim();
+        if (fence) {
+            block.push(line);
+            const closed = fence === "$$" ? trimmed.endsWith("$$") : trimmed.startsWith(fence);
+            if (closed) {
+                segments.push({ text: block.join("\n"), protected: true });
+                block = [];
+                fence = null;
+            }
+            continue;
+        }
+
+        const fenceMatch = trimmed.match(/^(```+|~~~+|\$\$)/);
+        if (fenceMatch) {
+            flush();
+            if (fenceMatch[1] === "$$" && trimmed.length > 2 && trimmed.endsWith("$$")) {
+                segments.push({ text: line, protected: true }); // 한 줄 수식 블록
+            } else {
+                fence = fenceMatch[1];
+                block = [line];
+            }
+            continue;
+        }
+        buffer.push(line);
+    }
+    flush();
+    if (block.length > 0) {
+        segments.push({ text: block.join("\n"), protected: true }); // 닫히지 않은 블록
+    }
+
+    const result: string[] = [];
+    for (const segment of segments) {
+        result.push(segment.protected ? segment.text : await fn(segment.text));
+    }
+    return result.join("\n");
+}
+
+// 인라인 코드(`...`)를 제외한 텍스트에만 fn을 적용
+async function mapInlineText(content: string, fn: (text: string) => string | Promise<string>): Promise<string> {
+    return mapBlockText(content, async (text) => {
+        const parts = text.split(/(`+[^`\n]*?`+)/);
+        const result: string[] = [];
+        for (const [index, part] of parts.entries()) {
+            result.push(index % 2 === 1 ? part : await fn(part));
+        }
+        return result.join("");
+    });
+}
+
+export const CONVERSION_RULES: ConversionRule[] = [
+    {
+        id: "comments",
+        name: "주석 제거",
+        description: "%%주석%%을 위키독스로 보내지 않습니다.",
+        defaultEnabled: true,
+        scope: "block",
+        toServer: (text) => text.replace(/%%[\s\S]*?%%/g, ""),
+    },
+    {
+        id: "transclusions",
+        name: "노트 삽입",
+        description: "![[다른 노트]]를 해당 노트의 내용으로 바꿔서 보냅니다.",
+        defaultEnabled: true,
+        scope: "block",
+        toServer: async (text, context) => {
+            const pattern = /!\[\[([^\]|#]+)(#[^\]|]*)?(\|[^\]]*)?\]\]/g;
+            const replacements: Record<string, string> = {};
+            for (const match of Array.from(text.matchAll(pattern))) {
+                const target = context.app.metadataCache.getFirstLinkpathDest(match[1], context.file.path);
+                if (target instanceof TFile && target.extension === "md" && target !== context.file) {
+                    replacements[match[0]] = getPureContent(await context.app.vault.cachedRead(target));
+                }
+            }
+            for (const [original, replacement] of Object.entries(replacements)) {
+                text = text.split(original).join(replacement);
+            }
+            return text;
+        },
+    },
+    {
+        id: "callouts",
+        name: "콜아웃",
+        description: "> [!note] 제목 형식의 콜아웃을 굵은 제목이 있는 인용문으로 바꿉니다.",
+        defaultEnabled: true,
+        scope: "block",
+        toServer: (text) => text.replace(
+            /^(>\s*)\[!(\w+)\]([+-]?)[ \t]*(.*)$/gm,
+            (_, quote, type, fold, title) =>
+                `${quote}<!-- callout:${type.toLowerCase()}${fold} -->\n${quote}**${title || capitalize(type)}**`
+        ),
+        toLocal: (text) => text.replace(
+            /^(>\s*)<!-- callout:(\w+)([+-]?) -->\n>\s*\*\*(.*)\*\*$/gm,
+            (_, quote, type, fold, title) =>
+                `${quote}[!${type}]${fold}${title === capitalize(type) ? "" : ` ${title}`}`
+        ),
+    },
+    {
+        id: "highlights",
+        name: "하이라이트",
+        description: "==강조==를 <mark>강조</mark>로 바꿉니다.",
+        defaultEnabled: true,
+        scope: "inline",
+        toServer: (text) => text.replace(/==([^=\n]+)==/g, "<mark>$1</mark>"),
+        toLocal: (text) => text.replace(/<mark>([^<\n]+)<\/mark>/g, "==$1=="),
+    },
+    {
+        id: "block-references",
+        name: "블록 참조",
+        description: "줄 끝의 블록 id(^block-id)를 제거합니다.",
+        defaultEnabled: true,
+        scope: "block",
+        toServer: (text) => text.replace(/[ \t]+\^[A-Za-z0-9-]+$/gm, ""),
+    },
+    {
+        id: "tags",
+        name: "태그",
+        description: "본문의 #태그가 제목으로 보이지 않도록 \\#태그로 바꿉니다.",
+        defaultEnabled: true,
+        scope: "inline",
+        toServer: (text) => text.replace(/(^|[ \t])#(?=[^\s#]*[^\d\s#])([^\s#.,!?;:()[\]{}"'`]+)/gm, "$1\\#$2"),
+        toLocal: (text) => text.replace(/(^|[ \t])\\#([^\s#.,!?;:()[\]{}"'`]+)/gm, "$1#$2"),
+    },
+    {
+        id: "hard-breaks",
+        name: "줄바꿈",
+        description: "문단 안의 줄바꿈을 강제 줄바꿈(줄 끝 공백 두 칸)으로 보냅니다. 코드와 수식 블록은 바꾸지 않습니다.",
+        defaultEnabled: false,
+        scope: "block",
+        toServer: (text) => {
+            const lines = text.split("\n");
+            return lines.map((line, index) => {
+                const next = lines[index + 1];
+                if (
+                    next === undefined || next.trim() === "" || line.trim() === "" ||
+                    /^\s*(#|\||-{3,}|\*{3,})/.test(line) || / {2}$|\\$/.test(line)
+                ) {
+                    return line;
+                }
+                return line.replace(/\s+$/, "") + "  ";
+            }).join("\n");
+        },
+        // 보낼 때 덧붙인 공백만 지운다. (로컬에서 공백 없이 끝나는 줄, 위키독스에서 작성한 강제 줄바꿈은 유지)
+        toLocal: (text, context) => {
+            const localLines = new Set((context.localContent ?? "").split("\n").filter((line) => !/\s$/.test(line)));
+            return text.replace(/^(.*?) {2,}$/gm, (line, content) => localLines.has(content) ? content : line);
+        },
+    },
+];
+
+function isRuleEnabled(rule: ConversionRule, enabledRules: Record<string, boolean>): boolean {
+    return enabledRules[rule.id] ?? rule.defaultEnabled;
+}
+
+/**
+ * Obsidian 마크다운을 위키독스로 보낼 형식으로 변환한다.
+ */
+export async function convertToServer(app: App, content: string, file: TFile, enabledRules: Record<string, boolean>): Promise<string> {
+    for (const rule of CONVERSION_RULES) {
+        if (!isRuleEnabled(rule, enabledRules)) {
+            continue;
+        }
+        const map = rule.scope === "inline" ? mapInlineText : mapBlockText;
+        content = await map(content, (text) => rule.toServer(text, { app, file }));
+    }
+    return content;
+}
+
+/**
+ * 위키독스에서 받은 마크다운을 Obsidian 형식으로 되돌린다.
+ * localContent는 지금의 로컬 본문으로, 보낼 때 바꾼 부분만 되돌리는 데 쓴다.
+ */
+export async function convertToLocal(content: string, enabledRules: Record<string, boolean>, localContent: string | null = null): Promise<string> {
+    for (const rule of [...CONVERSION_RULES].reverse()) {
+        const toLocal = rule.toLocal;
+        if (!toLocal || !isRuleEnabled(rule, enabledRules)) {
+            continue;
+        }
+        const map = rule.scope === "inline" ? mapInlineText : mapBlockText;
+        content = await map(content, (text) => toLocal(text, { localContent }));
+    }
+    return content;
+}
@@ -0,0 +1,195 @@
+import { HttpResponse } from "./transport";
+
+// 위키독스 API 오류
+// 응답 상태와 본문으로 종류를 나누고, 사용자에게 보여줄 안내 문구를 제공한다.
+
+export class WikiDocsApiError extends Error {
+    status: number; // HTTP 상태 코드 (네트워크 오류는 0)
+    detail: string; // 서버가 보낸 오류 내용
+
+    constructor(message: string, status: number, detail = "") {
+        super(detail ? `${message}: ${detail}` : message);
+        this.name = "WikiDocsApiError";
+        this.status = status;
+        this.detail = detail;
+    }
+
+    // 다시 시도하면 성공할 수 있는 오류인지
+    get isRetryable(): boolean {
+        return this.status === 502 || this.status === 503 || this.status === 504;
+    }
+
+    get hint(): string {
+        return this.detail || `알 수 없는 오류가 발생했습니다. (HTTP ${this.status})`;
+    }
+}
+
+// 401, 403 또는 토큰이 없는 경우
+export class WikiDocsAuthError extends WikiDocsApiError {
+    constructor(message: string, status: number, detail = "") {
+        super(message, status, detail);
+        this.name = "WikiDocsAuthError";
+    }
+
+    get hint(): string {
+        return this.status === 0
+            ? "API 토큰이 설정되지 않았습니다. 플러그인 설정에서 토큰을 입력해 주세요."
+            : "API 토큰이 올바르지 않거나 권한이 없습니다. 플러그인 설정에서 토큰을 확인해 주세요.";
+    }
+}
+
+// 책이나 블로그에 연결된 프로필이 설정에 없는 경우
+export class WikiDocsProfileError extends WikiDocsApiError {
+    profile: string;
+
+    constructor(profile: string) {
+        super(`Profile "${profile}" not found`, 0);
+        this.name = "WikiDocsProfileError";
+        this.profile = profile;
+    }
+
+    get hint(): string {
+        return `"${this.profile}" 프로필이 없습니다. 플러그인 설정에서 프로필을 추가하거나 metadata.md의 profile을 확인해 주세요.`;
+    }
+}
+
+export class WikiDocsNotFoundError extends WikiDocsApiError {
+    constructor(message: string, detail = "") {
+        super(message, 404, detail);
+        this.name = "WikiDocsNotFoundError";
+    }
+
+    get hint(): string {
+        return "위키독스에서 찾을 수 없습니다. 삭제되었거나 다른 계정의 책인지 확인해 주세요.";
+    }
+}
+
+// 400, 422: 필드별 오류 메시지를 가진다.
+export class WikiDocsValidationError extends WikiDocsApiError {
+    fields: Record<string, string[]>;
+
+    constructor(message: string, status: number, detail = "", fields: Record<string, string[]> = {}) {
+        super(message, status, detail);
+        this.name = "WikiDocsValidationError";
+        this.fields = fields;
+    }
+
+    get hint(): string {
+        return `입력 내용을 확인해 주세요. ${this.detail}`.trim();
+    }
+}
+
+export class WikiDocsRateLimitError extends WikiDocsApiError {
+    retryAfter: number; // 초
+
+    constructor(message: string, detail = "", retryAfter = 0) {
+        super(message, 429, detail);
+        this.name = "WikiDocsRateLimitError";
+        this.retryAfter = retryAfter;
+    }
+
+    get isRetryable(): boolean {
+        return true;
+    }
+
+    get hint(): string {
+        return this.retryAfter > 0
+            ? `요청이 너무 많습니다. ${this.retryAfter}초 후에 다시 시도해 주세요.`
+            : "요청이 너무 많습니다. 잠시 후에 다시 시도해 주세요.";
+    }
+}
+
+// 5xx
+export class WikiDocsServerError extends WikiDocsApiError {
+    constructor(message: string, status: number, detail = "") {
+        super(message, status, detail);
+        this.name = "WikiDocsServerError";
+    }
+
+    get hint(): string {
+        return "위키독스 서버에 문제가 있습니다. 잠시 후에 다시 시도해 주세요.";
+    }
+}
+
+// 연결 실패 또는 시간 초과
+export class WikiDocsNetworkError extends WikiDocsApiError {
+    timedOut: boolean;
+
+    constructor(message: string, detail = "", timedOut = false) {
+        super(message, 0, detail);
+        this.name = "WikiDocsNetworkError";
+        this.timedOut = timedOut;
+    }
+
+    get isRetryable(): boolean {
+        return true;
+    }
+
+    get hint(): string {
+        return this.timedOut
+            ? "응답 시간이 초과되었습니다. 플러그인 설정에서 요청 제한 시간을 늘려 보세요."
+            : "위키독스에 연결하지 못했습니다. 인터넷 연결과 API Base URL을 확인해 주세요.";
+    }
+}
+
+// 오류 응답 본문에서 메시지 추출 ({"detail": "..."} 또는 {"필드": ["..."]})
+function parseErrorBody(body: string): { detail: string; fields: Record<string, string[]> } {
+    const fields: Record<string, string[]> = {};
+    try {
+        const data = JSON.parse(body);
+        if (typeof data === "string") {
+            return { detail: data, fields };
+        }
+        if (data && typeof data === "object") {
+            if (typeof data.detail === "string") {
+                return { detail: data.detail, fields };
+            }
+            for (const [key, value] of Object.entries(data)) {
+                fields[key] = Array.isArray(value) ? value.map(String) : [String(value)];
+            }
+            const detail = Object.entries(fields)
+                .map(([key, messages]) => key === "non_field_errors" ? messages.join(" ") : `${key}: ${messages.join(" ")}`)
+                .join(", ");
+            return { detail, fields };
+        }
+    } catch (error) {
+        // JSON이 아닌 응답 (HTML 오류 페이지 등)
+    }
+    const text = body.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+    return { detail: text.length > 200 ? `${text.slice(0, 200)}…` : text, fields };
+}
+
+/**
+ * 실패한 응답을 상태 코드에 맞는 오류로 바꾼다.
+ */
+export function toApiError(response: HttpResponse, message: string): WikiDocsApiError {
+    const { detail, fields } = parseErrorBody(response.text);
+
+    if (response.status === 401 || response.status === 403) {
+        return new WikiDocsAuthError(message, response.status, detail);
+    }
+    if (response.status === 404) {
+        return new WikiDocsNotFoundError(message, detail);
+    }
+    if (response.status === 400 || response.status === 422) {
+        return new WikiDocsValidationError(message, response.status, detail, fields);
+    }
+    if (response.status === 429) {
+        const retryAfter = Number(response.headers["retry-after"]);
+        return new WikiDocsRateLimitError(message, detail, Number.isFinite(retryAfter) ? retryAfter : 0);
+    }
+    if (response.status >= 500) {
+        return new WikiDocsServerError(message, response.status, detail);
+    }
+    return new WikiDocsApiError(message, response.status, detail);
+}
+
+/**
+ * Notice에 보여줄 메시지. 무엇이 실패했는지와 어떻게 하면 되는지를 함께 보여준다.
+ */
+export function getErrorMessage(error: unknown, action: string): string {
+    if (error instanceof WikiDocsApiError) {
+        return `${action}\n${error.hint}`;
+    }
+    return `${action}\n${error instanceof Error ? error.message : String(error)}`;
+}
@@ -0,0 +1,156 @@
+import { TFile, TFolder } from "obsidian";
+
+import {
+    RemoteImage,
+} from "./images";
+
+import {
+    hasConflictMarkers,
+} from "./merge";
+
+import {
+    getBlogPostChange,
+    getBlogPostFiles,
+    getBookIdFromMetadata,
+    getPageMetadata,
+    getSiblingPages,
+    isPageChanged,
+} from "./md";
+
+import {
+    resolvePage,
+    SyncIndex,
+} from "./sync-index";
+
+import {
+    extractEmbeddedImages,
+    getBlogFolders,
+    getBookFolders,
+} from "./utils";
+
+// 위키독스 탐색기 패널에 표시하는 책과 블로그의 트리
+
+// 페이지 배지 (신규, 변경, 충돌, 비공개, 업로드하지 않은 이미지)
+export type ExplorerBadge = "new" | "modified" | "conflict" | "private" | "images";
+
+export interface ExplorerItem {
+    file: TFile;
+    badges: ExplorerBadge[];
+    children: ExplorerItem[]; // 하위 페이지 (위키독스 순서)
+}
+
+export interface ExplorerBook {
+    folder: TFolder;
+    title: string;
+    items: ExplorerItem[];
+}
+
+export interface ExplorerBlog {
+    folder: TFolder;
+    items: ExplorerItem[];
+}
+
+
+// 마지막 업로드 이후 바뀌었거나 아직 업로드하지 않은 이미지가 있는지 확인
+function hasUnsyncedImages(file: TFile, remoteImages: Record<string, RemoteImage>): boolean {
+    return extractEmbeddedImages(file).some((image) => remoteImages[image.path]?.mtime !== image.stat.mtime);
+}
+
+
+async function getPageItems(
+    folder: TFolder,
+    bookId: number,
+    syncIndex: SyncIndex,
+    remoteImages: Record<string, RemoteImage>
+): Promise<ExplorerItem[]> {
+    const items: ExplorerItem[] = [];
+    for (const file of getSiblingPages(folder, syncIndex)) {
+        const fileContent = await this.app.vault.cachedRead(file);
+        const metadata = getPageMetadata(file, bookId, syncIndex);
+        const page = resolvePage(syncIndex, bookId, file);
+
+        const badges: ExplorerBadge[] = [];
+        if (!page) {
+            badges.push("new");
+        } else if (isPageChanged(file, metadata, fileContent, page)) {
+            badges.push("modified");
+        }
+        if (hasConflictMarkers(fileContent)) {
+            badges.push("conflict");
+        }
+        if (metadata.open_yn === "N") {
+            badges.push("private");
+        }
+        if (hasUnsyncedImages(file, remoteImages)) {
+            badges.push("images");
+        }
+
+        // 하위 페이지는 페이지 옆의 같은 이름 폴더에 있다.
+        const subFolder = this.app.vault.getAbstractFileByPath(`${folder.path}/${file.basename}`);
+        const children = subFolder instanceof TFolder ? await getPageItems(subFolder, bookId, syncIndex, remoteImages) : [];
+        items.push({ file, badges, children });
+    }
+    return items;
+}
+
+
+/**
+ * 내려받은 책을 위키독스 목차 순서의 트리로 반환한다.
+ */
+export async function getExplorerBooks(syncIndex: SyncIndex, remoteImages: Record<string, RemoteImage>): Promise<ExplorerBook[]> {
+    const books: ExplorerBook[] = [];
+    for (const folder of getBookFolders()) {
+        const bookId = await getBookIdFromMetadata(folder.path);
+        if (!bookId) {
+            continue;
+        }
+        const metadataFile = this.app.vault.getAbstractFileByPath(`${folder.path}/metadata.md`);
+        const title = metadataFile instanceof TFile ? this.app.metadataCache.getFileCache(metadataFile)?.frontmatter?.title : null;
+        books.push({
+            folder,
+            title: title ? String(title) : folder.name,
+            items: await getPageItems(folder, bookId, syncIndex, remoteImages),
+        });
+    }
+    return books.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+
+/**
+ * 블로그 폴더(blog_metadata.md가 있는 폴더)의 글을 반환한다.
+ */
+export async function getExplorerBlogs(remoteImages: Record<string, RemoteImage>): Promise<ExplorerBlog[]> {
+    const blogs: ExplorerBlog[] = [];
+    for (const folder of getBlogFolders()) {
+        // 위키독스 블로그 목록처럼 최근 글(id가 큰 글)부터, 보내지 않은 글은 맨 위에 표시한다.
+        const getId = (file: TFile) => {
+            const id = Number(this.app.metadataCache.getFileCache(file)?.frontmatter?.id);
+            return id > 0 ? id : Number.MAX_SAFE_INTEGER;
+        };
+        const items: ExplorerItem[] = [];
+        const files = getBlogPostFiles(folder)
+            .sort((a, b) => getId(b) - getId(a) || a.basename.localeCompare(b.basename));
+        for (const file of files) {
+            const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            const fileContent = await this.app.vault.cachedRead(file);
+
+            const badges: ExplorerBadge[] = [];
+            const change = await getBlogPostChange(file);
+            if (change) {
+                badges.push(change);
+            }
+            if (hasConflictMarkers(fileContent)) {
+                badges.push("conflict");
+            }
+            if (frontMatter?.is_public === false) {
+                badges.push("private");
+            }
+            if (hasUnsyncedImages(file, remoteImages)) {
+                badges.push("images");
+            }
+            items.push({ file, badges, children: [] });
+        }
+        blogs.push({ folder, items });
+    }
+    return blogs;
+}
@@ -0,0 +1,356 @@
+import { HttpRequest, HttpResponse, HttpTransport } from "./transport";
+
+// 메모리에서 동작하는 위키독스 API (테스트용)
+// ApiClient의 transport로 넘기면 wikidocs.net 없이 책/블로그 흐름을 처음부터 끝까지 실행할 수 있다.
+//
+//   const server = new FakeWikiDocsServer({ token: "test" });
+//   const bookId = server.addBook({ subject: "책" });
+//   server.addPage({ book_id: bookId, subject: "1장", content: "..." });
+//   plugin.settings.profiles[0].apiToken = "test";
+//   plugin.apiClient = new ApiClient(plugin.settings, server);
+
+export const FAKE_ORIGIN = "https://wikidocs.test";
+
+export interface FakeBook {
+    id: number;
+    subject: string;
+    summary: string;
+    copyright: string;
+    open_yn: string;
+    ad_yn: string;
+    image: string;
+}
+
+export interface FakePage {
+    id: number;
+    book_id: number;
+    parent_id: number;
+    order: number;
+    subject: string;
+    content: string;
+    open_yn: string;
+}
+
+export interface FakeRevision {
+    id: number;
+    page_id: number;
+    subject: string;
+    content: string;
+    author: string;
+    created_at: string;
+}
+
+export interface FakeBlog {
+    id: number;
+    title: string;
+    content: string;
+    tags: string[];
+    is_public: boolean;
+    created_at: string;
+}
+
+export interface FakeImage {
+    url: string;
+    fileName: string;
+    data: ArrayBuffer;
+}
+
+type FakePageTree = FakePage & { children: FakePageTree[] };
+
+// 블로그 목록 한 페이지의 글 수
+const BLOG_PAGE_SIZE = 10;
+
+export class FakeWikiDocsServer implements HttpTransport {
+    token: string;
+    books = new Map<number, FakeBook>();
+    pages = new Map<number, FakePage>();
+    blogs = new Map<number, FakeBlog>();
+    images = new Map<string, FakeImage>(); // URL별 업로드된 이미지
+    revisions: FakeRevision[] = []; // 페이지를 저장할 때마다 쌓이는 버전
+    account = { id: 1, username: "fake" };
+    profile = { id: 1, url: "fake", name: "Fake Blog" };
+    requests: HttpRequest[] = []; // 받은 요청 기록
+
+    private nextId = 1;
+    private failures: HttpResponse[] = [];
+
+    constructor(options: { token?: string } = {}) {
+        this.token = options.token ?? "fake-token";
+    }
+
+    addBook(book: Partial<FakeBook> & { subject: string }): number {
+        const id = book.id ?? this.nextId++;
+        this.books.set(id, { summary: "", copyright: "", open_yn: "Y", ad_yn: "Y", image: "", ...book, id });
+        return id;
+    }
+
+    addPage(page: Partial<FakePage> & { book_id: number; subject: string }): number {
+        const id = page.id ?? this.nextId++;
+        const parentId = page.parent_id ?? -1;
+        this.pages.set(id, {
+            content: "",
+            open_yn: "Y",
+            order: this.getChildren(page.book_id, parentId).length,
+            ...page,
+            parent_id: parentId,
+            id,
+        });
+        this.addRevision(id);
+        return id;
+    }
+
+    addBlog(blog: Partial<FakeBlog> & { title: string }): number {
+        const id = blog.id ?? this.nextId++;
+        this.blogs.set(id, { content: "", tags: [], is_public: true, created_at: new Date().toISOString(), ...blog, id });
+        return id;
+    }
+
+    /**
+     * 다음 count개의 요청에 status로 응답한다. (재시도, 오류 처리 확인용)
+     * headers로 Retry-After 등의 응답 헤더를 붙일 수 있다. (이름은 소문자)
+     */
+    failNextRequests(count: number, status = 503, body = "", headers: Record<string, string> = {}) {
+        for (let i = 0; i < count; i++) {
+            this.failures.push(this.createResponse(status, body, headers));
+        }
+    }
+
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        this.requests.push(request);
+
+        // 업로드된 이미지 (인증 필요 없음)
+        const image = this.images.get(request.url);
+        if (image && request.method === "GET") {
+            return { status: 200, headers: {}, text: "", arrayBuffer: image.data };
+        }
+
+        const failure = this.failures.shift();
+        if (failure) {
+            return failure;
+        }
+
+        if (request.headers["Authorization"] !== `Token ${this.token}`) {
+            return this.json(401, { detail: "Invalid token." });
+        }
+
+        const path = new URL(request.url).pathname.replace(/^.*?\/(books|pages|images|blog|users)\//, "/$1/");
+        const body = typeof request.body === "string" && request.body ? JSON.parse(request.body) : {};
+        let match: RegExpMatchArray | null;
+
+        if (path === "/books/") {
+            if (request.method === "GET") {
+                return this.json(200, [...this.books.values()].map(({ id, subject }) => ({ id, subject })));
+            }
+            if (request.method === "POST") {
+                if (!body.subject) {
+                    return this.json(400, { subject: ["This field is required."] });
+                }
+                return this.json(201, this.getBook(this.addBook({ subject: body.subject })));
+            }
+        }
+
+        if ((match = path.match(/^\/books\/(\d+)\/$/))) {
+            const book = this.books.get(Number(match[1]));
+            if (!book) {
+                return this.json(404, { detail: "Not found." });
+            }
+            if (request.method === "GET") {
+                return this.json(200, this.getBook(book.id));
+            }
+            if (request.method === "PUT") {
+                Object.assign(book, body, { id: book.id });
+                return this.json(200, this.getBook(book.id));
+            }
+        }
+
+        if ((match = path.match(/^\/pages\/(\d+)\/history\/(?:(\d+)\/)?$/)) && request.method === "GET") {
+            return this.handleHistory(Number(match[1]), match[2] ? Number(match[2]) : null);
+        }
+
+        if ((match = path.match(/^\/pages\/(-?\d+)\/$/))) {
+            return this.handlePage(request.method, Number(match[1]), body);
+        }
+
+        if (path === "/images/upload/" || path === "/blog/images/upload/") {
+            return this.handleUpload(request);
+        }
+
+        if (path === "/users/me/") {
+            return this.json(200, this.account);
+        }
+
+        if (path === "/blog/profile/") {
+            return this.json(200, this.profile);
+        }
+
+        if ((match = path.match(/^\/blog\/list\/(\d+)$/))) {
+            const page = Number(match[1]);
+            const blogs = [...this.blogs.values()].reverse();
+            const blogPages = blogs.slice((page - 1) * BLOG_PAGE_SIZE, page * BLOG_PAGE_SIZE);
+            if (page > 1 && blogPages.length === 0) {
+                return this.json(404, { detail: "Invalid page." });
+            }
+            return this.json(200, {
+                blog_pages: blogPages.map(({ id, title, is_public }) => ({ id, title, is_public })),
+            });
+        }
+
+        if (path === "/blog/tags/") {
+            const tags = new Set([...this.blogs.values()].flatMap((blog) => blog.tags));
+            return this.json(200, [...tags].sort());
+        }
+
+        if (path === "/blog/create/" && request.method === "POST") {
+            return this.json(201, { id: this.addBlog({ title: "" }) });
+        }
+
+        if ((match = path.match(/^\/blog\/(\d+)\/?$/))) {
+            const blog = this.blogs.get(Number(match[1]));
+            if (!blog) {
+                return this.json(404, { detail: "Not found." });
+            }
+            if (request.method === "PUT") {
+                blog.title = body.title ?? blog.title;
+                blog.content = body.content ?? blog.content;
+                blog.is_public = body.is_public ?? blog.is_public;
+                if (body.tags !== undefined) {
+                    blog.tags = String(body.tags).split(",").map((tag) => tag.trim()).filter((tag) => tag);
+                }
+            }
+            return this.json(200, blog);
+        }
+
+        return this.json(404, { detail: "Not found." });
+    }
+
+    private handlePage(method: string, pageId: number, body: Partial<FakePage>): HttpResponse {
+        if (method === "DELETE") {
+            if (!this.pages.has(pageId)) {
+                return this.json(404, { detail: "Not found." });
+            }
+            this.deletePage(pageId);
+            return this.createResponse(204, "");
+        }
+
+        if (method === "GET") {
+            const page = this.pages.get(pageId);
+            return page ? this.json(200, page) : this.json(404, { detail: "Not found." });
+        }
+
+        if (method !== "PUT") {
+            return this.json(405, { detail: `Method "${method}" not allowed.` });
+        }
+        if (!body.subject) {
+            return this.json(400, { subject: ["This field is required."] });
+        }
+
+        if (pageId === -1) {
+            if (!this.books.has(Number(body.book_id))) {
+                return this.json(400, { book_id: ["Invalid book."] });
+            }
+            const id = this.addPage({
+                book_id: Number(body.book_id),
+                parent_id: Number(body.parent_id ?? -1),
+                subject: body.subject,
+                content: body.content ?? "",
+                open_yn: body.open_yn ?? "Y",
+                ...(typeof body.order === "number" ? { order: body.order } : {}),
+            });
+            return this.json(201, this.pages.get(id));
+        }
+
+        const page = this.pages.get(pageId);
+        if (!page) {
+            return this.json(404, { detail: "Not found." });
+        }
+        page.subject = body.subject;
+        page.content = body.content ?? page.content;
+        page.parent_id = Number(body.parent_id ?? page.parent_id);
+        page.order = typeof body.order === "number" ? body.order : page.order;
+        page.open_yn = body.open_yn ?? page.open_yn;
+        this.addRevision(page.id);
+        return this.json(200, page);
+    }
+
+    // 버전 목록은 본문 없이, 버전 하나는 본문과 함께 반환한다.
+    private handleHistory(pageId: number, revisionId: number | null): HttpResponse {
+        if (!this.pages.has(pageId)) {
+            return this.json(404, { detail: "Not found." });
+        }
+        const revisions = this.revisions.filter((revision) => revision.page_id === pageId);
+        if (revisionId === null) {
+            return this.json(200, revisions.map(({ id, author, created_at }) => ({ id, author, created_at })));
+        }
+        const revision = revisions.find((revision) => revision.id === revisionId);
+        return revision ? this.json(200, revision) : this.json(404, { detail: "Not found." });
+    }
+
+    private addRevision(pageId: number) {
+        const page = this.pages.get(pageId);
+        if (page) {
+            this.revisions.push({
+                id: this.nextId++,
+                page_id: page.id,
+                subject: page.subject,
+                content: page.content,
+                author: this.profile.name,
+                created_at: new Date().toISOString(),
+            });
+        }
+    }
+
+    // multipart 본문에서 파일 이름과 소유자(page_id, book_id, blog_id)를 읽는다.
+    private handleUpload(request: HttpRequest): HttpResponse {
+        if (!(request.body instanceof ArrayBuffer)) {
+            return this.json(400, { file: ["No file was submitted."] });
+        }
+        const text = new TextDecoder().decode(request.body);
+        const fileName = text.match(/name="file"; filename="([^"]*)"/)?.[1];
+        const owner = text.match(/name="(page_id|book_id|blog_id)"\r\n\r\n(-?\d+)/);
+        if (!fileName || !owner) {
+            return this.json(400, { file: ["No file was submitted."] });
+        }
+
+        const folder = owner[1].replace("_id", "");
+        const url = `${FAKE_ORIGIN}/images/${folder}/${owner[2]}/${this.nextId++}-${fileName}`;
+        this.images.set(url, { url, fileName, data: request.body });
+        return this.json(201, { url });
+    }
+
+    private getChildren(bookId: number, parentId: number): FakePage[] {
+        return [...this.pages.values()]
+            .filter((page) => page.book_id === bookId && page.parent_id === parentId)
+            .sort((a, b) => a.order - b.order || a.id - b.id);
+    }
+
+    private deletePage(pageId: number) {
+        const page = this.pages.get(pageId);
+        if (!page) {
+            return;
+        }
+        for (const child of this.getChildren(page.book_id, page.id)) {
+            this.deletePage(child.id);
+        }
+        this.pages.delete(pageId);
+    }
+
+    // GET /books/{id}/ 응답 (페이지는 트리 구조)
+    private getBook(bookId: number): Partial<FakeBook> & { pages: FakePageTree[] } {
+        const toTree = (parentId: number): FakePageTree[] =>
+            this.getChildren(bookId, parentId).map((page) => ({ ...page, children: toTree(page.id) }));
+        return { ...this.books.get(bookId), pages: toTree(-1) };
+    }
+
+    private json(status: number, data: unknown): HttpResponse {
+        return this.createResponse(status, JSON.stringify(data));
+    }
+
+    private createResponse(status: number, text: string, headers: Record<string, string> = {}): HttpResponse {
+        return {
+            status,
+            headers: { "content-type": "application/json", ...headers },
+            text,
+            arrayBuffer: new TextEncoder().encode(text).buffer,
+        };
+    }
+}
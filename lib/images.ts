@@ -0,0 +1,104 @@
+import { TFile, normalizePath } from "obsidian";
+
+import { trackWrite } from "./sync-lock";
+import { ensureFolderExists } from "./utils";
+
+// 업로드(또는 다운로드)된 이미지의 서버 URL. 파일이 바뀌지 않았으면 다시 업로드하지 않는다.
+export interface RemoteImage {
+    url: string;
+    mtime: number;
+}
+
+const REMOTE_IMAGE_PATTERN = /!\[([^\]]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+
+/**
+ * 본문의 이미지 embed(![[image.png]], ![](image.png))를 서버 URL로 바꾼다.
+ */
+export function replaceImageEmbeds(file: TFile, content: string, imageMap: Record<string, string>): string {
+    const fileCache = this.app.metadataCache.getFileCache(file);
+    if (!fileCache?.embeds) {
+        return content;
+    }
+
+    for (const embed of fileCache.embeds) {
+        const decodedPath = decodeURIComponent(embed.link);
+        const imageFile = this.app.metadataCache.getFirstLinkpathDest(decodedPath, file.path);
+        if (!(imageFile instanceof TFile) || !imageMap[imageFile.path]) {
+            continue;
+        }
+
+        content = content.split(embed.original).join(`![${imageFile.basename}](${imageMap[imageFile.path]})`);
+    }
+    return content;
+}
+
+// 서버 URL로 이미 받아둔 이미지 파일을 찾는다.
+function findLocalImage(url: string, remoteImages: Record<string, RemoteImage>): TFile | null {
+    for (const [path, image] of Object.entries(remoteImages)) {
+        if (image.url === url) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                return file;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * 본문의 위키독스 이미지를 첨부파일 폴더에 내려받고 로컬 embed(![[image.png]])로 바꾼다.
+ * origin이 다른 외부 이미지는 그대로 둔다.
+ */
+export async function localizeImages(
+    content: string,
+    sourcePath: string,
+    attachmentFolderPath: string,
+    origin: string,
+    remoteImages: Record<string, RemoteImage>,
+    download: (url: string) => Promise<ArrayBuffer>
+): Promise<string> {
+    const replacements: Record<string, string> = {};
+
+    for (const match of Array.from(content.matchAll(REMOTE_IMAGE_PATTERN))) {
+        const [original, , src] = match;
+        if (replacements[original] !== undefined) {
+            continue;
+        }
+
+        const url = src.startsWith("/") ? `${origin}${src}` : src;
+        if (!url.startsWith(`${origin}/`)) {
+            continue;
+        }
+
+        try {
+            let file = findLocalImage(url, remoteImages);
+            if (!file) {
+                const fileName = decodeURIComponent(url.split(/[?#]/)[0].split("/").pop() ?? "image");
+                const dotIndex = fileName.lastIndexOf(".");
+                const baseName = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+                const extension = dotIndex > 0 ? fileName.slice(dotIndex) : "";
+
+                // 같은 이름의 다른 이미지가 있으면 번호를 붙인다.
+                let filePath = normalizePath(`${attachmentFolderPath}/${fileName}`);
+                for (let i = 1; this.app.vault.getAbstractFileByPath(filePath); i++) {
+                    filePath = normalizePath(`${attachmentFolderPath}/${baseName}-${i}${extension}`);
+                }
+
+                const data = await download(url);
+                await ensureFolderExists(attachmentFolderPath);
+                file = await trackWrite([filePath], () => this.app.vault.createBinary(filePath, data)) as TFile;
+                remoteImages[file.path] = { url, mtime: file.stat.mtime };
+            }
+
+            const linkText = this.app.metadataCache.fileToLinktext(file, sourcePath, false);
+            replacements[original] = `![[${linkText}]]`;
+        } catch (error) {
+            console.error(`Failed to download image: ${url}`, error);
+        }
+    }
+
+    for (const [original, replacement] of Object.entries(replacements)) {
+        content = content.split(original).join(replacement);
+    }
+    return content;
+}
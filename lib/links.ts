@@ -0,0 +1,74 @@
+import { TFile } from "obsidian";
+
+import { BasePage } from "./base";
+import { SyncIndex } from "./sync-index";
+import { findBookFolder, sanitizeFileName } from "./utils";
+
+// [text](https://wikidocs.net/123#heading) 또는 [text](/123)
+function getPageLinkPattern(origin: string): RegExp {
+    const escapedOrigin = origin.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    return new RegExp(`(^|[^!])\\[([^\\]]*)\\]\\((?:${escapedOrigin})?/(\\d+)/?(?:#([^)\\s]*))?\\)`, "g");
+}
+
+/**
+ * 같은 책의 페이지를 가리키는 위키링크([[페이지]], [[페이지#제목|별칭]])를 위키독스 페이지 링크로 바꾼다.
+ * id가 없는 페이지(아직 보내지 않은 페이지)나 다른 책의 노트를 가리키는 링크는 그대로 둔다.
+ */
+export function wikiLinksToPageLinks(file: TFile, content: string, origin: string, syncIndex: SyncIndex): string {
+    const fileCache = this.app.metadataCache.getFileCache(file);
+    const bookFolder = findBookFolder(file);
+    if (!fileCache?.links || !bookFolder) {
+        return content;
+    }
+
+    for (const link of fileCache.links) {
+        const [linkPath, ...subpaths] = link.link.split("#");
+        const target = linkPath
+            ? this.app.metadataCache.getFirstLinkpathDest(decodeURIComponent(linkPath), file.path)
+            : file;
+        if (!(target instanceof TFile) || findBookFolder(target) !== bookFolder) {
+            continue;
+        }
+
+        const pageId = syncIndex.findByPath(target.path)?.id;
+        if (!pageId) {
+            continue;
+        }
+
+        // 블록 참조(#^id)는 페이지 링크로만 바꾼다.
+        const heading = subpaths.length > 0 && !subpaths[0].startsWith("^") ? subpaths[subpaths.length - 1] : "";
+        const anchor = heading ? `#${encodeURIComponent(heading)}` : "";
+        let text: string;
+        const aliasMatch = link.original.match(/\|([^\]]+)\]\]$/);
+        if (aliasMatch) {
+            text = aliasMatch[1];
+        } else if (link.original.startsWith("[[")) {
+            text = heading || target.basename;
+        } else {
+            text = link.displayText ?? target.basename; // 마크다운 링크 [text](페이지.md)
+        }
+
+        content = content.split(link.original).join(`[${text}](${origin}/${pageId}${anchor})`);
+    }
+    return content;
+}
+
+/**
+ * 같은 책의 위키독스 페이지 링크를 위키링크로 바꾼다.
+ */
+export function pageLinksToWikiLinks(content: string, origin: string, pages: BasePage[]): string {
+    const subjects = new Map(pages.map((page) => [page.id, sanitizeFileName(page.subject)]));
+
+    return content.replace(getPageLinkPattern(origin), (original, prefix, text, pageId, anchor) => {
+        const subject = subjects.get(Number(pageId));
+        if (!subject) {
+            return original;
+        }
+
+        const heading = anchor ? decodeURIComponent(anchor) : "";
+        const target = heading ? `${subject}#${heading}` : subject;
+        // 별칭이 제목과 같으면 생략한다. ([[페이지]], [[페이지#제목]]과 서로 변환되도록)
+        const display = text && text !== (heading || subject) ? `|${text}` : "";
+        return `${prefix}[[${target}${display}]]`;
+    });
+}
@@ -1,96 +1,266 @@
-import { App, TFile, TFolder } from "obsidian";
+import { App, FrontMatterCache, Notice, parseYaml, stringifyYaml, TFile, TFolder } from "obsidian";
 
 import {
+    BasePage,
+    readBaseContent,
+    removeBaseContent,
+    saveBaseContent,
+    saveBasePages,
+} from "./base";
+
+import {
+    resolvePage,
+    SyncedPage,
+    SyncIndex,
+} from "./sync-index";
+
+import {
+    MergeResult,
+    mergeThreeWay,
+} from "./merge";
+
+import { trackWrite } from "./sync-lock";
+
+import {
+    deleteEmptyFolders,
     ensureFolderExists,
     extractTitleFromFilePath,
+    findBookFolder,
+    FRONT_MATTER_PATTERN,
     getFileModifiedTime,
-    readTopLevelMetadata,
+    getFrontMatterBlock,
+    hashContent,
+    removeFrontMatter,
     sanitizeFileName,
 } from "./utils";
 
 
+/**
+ * 파일 내용의 Front Matter를 객체로 읽는다. Front Matter가 없으면 빈 객체를, YAML이 깨졌으면 null을 반환한다.
+ */
+export function readFrontMatter(content: string): Record<string, unknown> | null {
+    const yaml = content.match(FRONT_MATTER_PATTERN)?.[1];
+    if (!yaml?.trim()) {
+        return {};
+    }
+    try {
+        const frontMatter = parseYaml(yaml);
+        if (frontMatter === null || frontMatter === undefined) {
+            return {};
+        }
+        return typeof frontMatter === "object" && !Array.isArray(frontMatter) ? frontMatter : null;
+    } catch (error) {
+        console.warn("Invalid front matter", error);
+        return null;
+    }
+}
+
+/**
+ * 플러그인이 관리하는 값(fields)을 content의 Front Matter에 합쳐서 Front Matter 블록을 만든다.
+ * 사용자가 추가한 키(aliases, cssclasses, Dataview 속성 등)와 키 순서는 그대로 두고, 값이 undefined인 키는 지운다.
+ */
+export function mergeFrontMatter(content: string | null, fields: Record<string, unknown>): string {
+    const frontMatter = content ? readFrontMatter(content) : {};
+    if (!frontMatter) {
+        // 다시 쓰면 사용자가 추가한 키를 잃으므로 깨진 Front Matter는 그대로 둔다.
+        new Notice("Front Matter의 YAML을 읽지 못해 그대로 두었습니다. 형식을 확인해 주세요.");
+        return getFrontMatterBlock(content ?? "");
+    }
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) {
+            delete frontMatter[key];
+        } else {
+            frontMatter[key] = value;
+        }
+    }
+    return `---\n${stringifyYaml(frontMatter)}---\n`;
+}
+
+
+// 서버의 책 (GET /books/{id}/). 페이지는 트리 구조다.
+export interface ServerBook {
+    id: number;
+    subject: string;
+    summary?: string;
+    copyright?: string;
+    open_yn?: string;
+    ad_yn?: string;
+    image?: string;
+    pages: ServerPage[];
+}
+
+// 서버 책 목차의 페이지. 하위 페이지는 children에 들어 있다.
+export interface ServerPage {
+    id: number;
+    book_id: number;
+    subject: string;
+    content?: string;
+    open_yn?: string;
+    children?: ServerPage[];
+}
+
+// 서버의 블로그 글 (GET /blog/{id})
+export interface BlogPost {
+    id: number;
+    title: string;
+    content?: string;
+    tags: unknown;
+    is_public: boolean;
+    created_at?: string;
+}
+
+
 export class PageMetadata {
     id: number;
     subject: string;
     book_id?: number;
     parent_id?: number;
     open_yn?: string;
-    last_synced?: string;
+    order?: number;
 
     constructor(data: {
         id: number;
         subject: string;
-        last_synced?: string;
         book_id?: number;
         parent_id?: number;
+        order?: number;
         open_yn?: string;
     }) {
         this.id = data.id;
         this.subject = data.subject;
-        this.last_synced = data.last_synced;
         this.book_id = data.book_id;
         this.parent_id = data.parent_id;
+        this.order = data.order;
         this.open_yn = data.open_yn;
+    }
 
-        if (this.subject.includes("#")) {
-            this.subject = `"${this.subject}"`; // 따옴표로 감싸기
-        }
+    // 필요한 추가 메서드
+    isLocked(): boolean {
+        return this.open_yn === "N";
     }
 
-    // MetadataCache에서 제공된 frontmatter 객체를 처리
-    static fromFrontMatter(frontMatter: Record<string, any>): PageMetadata {
-        if (!frontMatter.id || !frontMatter.subject) {
-            throw new Error("Front Matter must contain 'id' and 'subject'.");
+    // 동기화 상태는 동기화 인덱스(lib/sync-index.ts)에 보관하고, front matter에는 id와 제목, 공개 여부만 기록한다.
+    // content가 있으면 그 Front Matter의 다른 키는 유지한다.
+    getFrontMatter(content: string | null = null): string {
+        return mergeFrontMatter(content, {
+            id: this.id,
+            subject: this.subject,
+            open_yn: this.open_yn ?? "Y",
+        });
+    }
+}
+
+
+// 책 설정 (metadata.md)
+export class BookMetadata {
+    id: number;
+    title: string;
+    description: string;
+    copyright: string;
+    open_yn: string;
+    ad_yn: string;
+    cover: string; // 표지 이미지 (metadata.md 본문의 이미지)
+    profile?: string; // 책을 내려받은 계정의 프로필 이름
+    last_synced?: string;
+    hash?: string;
+
+    constructor(data: {
+        id: number;
+        title: string;
+        description?: string;
+        copyright?: string;
+        open_yn?: string;
+        ad_yn?: string;
+        cover?: string;
+        profile?: string;
+        last_synced?: string;
+        hash?: string;
+    }) {
+        this.id = data.id;
+        this.title = data.title;
+        this.description = data.description ?? "";
+        this.copyright = data.copyright ?? "";
+        this.open_yn = data.open_yn ?? "Y";
+        this.ad_yn = data.ad_yn ?? "Y";
+        this.cover = data.cover ?? "";
+        this.profile = data.profile;
+        this.last_synced = data.last_synced;
+        this.hash = data.hash;
+    }
+
+    // 서버의 책 데이터를 처리
+    static fromBookData(bookData: ServerBook): BookMetadata {
+        return new BookMetadata({
+            id: bookData.id,
+            title: bookData.subject,
+            description: bookData.summary,
+            copyright: bookData.copyright,
+            open_yn: bookData.open_yn,
+            ad_yn: bookData.ad_yn,
+            cover: bookData.image ? `![cover](${bookData.image})` : "",
+        });
+    }
+
+    // MetadataCache에서 제공된 frontmatter 객체와 본문을 처리
+    static fromFrontMatter(frontMatter: FrontMatterCache, content: string): BookMetadata {
+        if (!frontMatter.id) {
+            throw new Error("Front Matter must contain 'id'.");
         }
-        
-        return new PageMetadata({
+
+        return new BookMetadata({
             id: frontMatter.id,
-            subject: frontMatter.subject,
-            last_synced: frontMatter.last_synced,
-            book_id: frontMatter.book_id,
-            parent_id: frontMatter.parent_id,
+            title: String(frontMatter.title ?? ""),
+            description: frontMatter.description ?? "",
+            copyright: frontMatter.copyright ?? "",
             open_yn: frontMatter.open_yn,
+            ad_yn: frontMatter.ad_yn,
+            cover: getPureContent(content),
+            profile: frontMatter.profile ? String(frontMatter.profile) : undefined,
+            last_synced: frontMatter.last_synced,
+            hash: frontMatter.hash,
         });
     }
 
-    // 필요한 추가 메서드
-    isLocked(): boolean {
-        return this.open_yn === "N";
+    computeHash(): string {
+        return hashContent(this.title, [this.description, this.copyright, this.open_yn, this.ad_yn, this.cover].join("\n"));
     }
 
-    updateLastSynced(): void {
-        this.last_synced = new Date().toISOString();
+    // hash가 없는 이전 버전의 metadata.md는 변경되지 않은 것으로 본다.
+    isChanged(): boolean {
+        return !!this.hash && this.computeHash() !== this.hash;
     }
 
-    getFrontMatter(): string {
-        const frontMatter = `---\n` +
-            `id: ${this.id}\n` +
-            `subject: ${this.subject}\n` +
-            `book_id: ${this.book_id ?? -1}\n` +
-            `parent_id: ${this.parent_id ?? -1}\n` +
-            `open_yn: ${this.open_yn}\n` +
-            `last_synced: ${this.last_synced}\n` +
-            `---\n`;
-        return frontMatter;
+    getFrontMatter(content: string | null = null): string {
+        return mergeFrontMatter(content, {
+            id: this.id,
+            title: this.title,
+            description: this.description,
+            copyright: this.copyright,
+            open_yn: this.open_yn,
+            ad_yn: this.ad_yn,
+            profile: this.profile || undefined,
+            last_synced: this.last_synced ?? "",
+            hash: this.hash ?? "",
+        });
     }
 }
 
 
-export async function saveBookMetadata(folderPath: string, bookId: number, bookTitle: string) {
+export async function saveBookMetadata(folderPath: string, bookData: ServerBook, profile: string | null = null) {
     const metadataPath = `${folderPath}/metadata.md`;
-    const metadataContent = `---\n` +
-        `id: ${bookId}\n` +
-        `title: ${bookTitle}\n` +
-        `---\n`;
-
+    const metadata = BookMetadata.fromBookData(bookData);
+    metadata.profile = profile ?? undefined;
+    metadata.last_synced = new Date().toISOString();
+    metadata.hash = metadata.computeHash();
     const existingFile = this.app.vault.getAbstractFileByPath(metadataPath);
 
     if (existingFile instanceof TFile) {
         // 기존 파일 업데이트
-        await this.app.vault.modify(existingFile, metadataContent);
+        const existingContent = await this.app.vault.read(existingFile);
+        await trackWrite([metadataPath], () => this.app.vault.modify(existingFile, metadata.getFrontMatter(existingContent) + metadata.cover));
     } else if (!existingFile) {
         // 새 파일 생성
-        await this.app.vault.create(metadataPath, metadataContent);
+        await trackWrite([metadataPath], () => this.app.vault.create(metadataPath, metadata.getFrontMatter() + metadata.cover));
     } else {
         // 예상치 못한 타입의 파일 처리
         console.error(`The path "${metadataPath}" exists but is not a valid file.`);
@@ -98,86 +268,43 @@ export async function saveBookMetadata(folderPath: string, bookId: number, bookT
 }
 
 
-async function getParentId(file: TFile) {
-    // 1. 부모 폴더 가져오기
-    const parentFolder = file.parent;
-    if (!(parentFolder instanceof TFolder)) {
-        // console.warn(`The file "${file.path}" does not have a parent folder.`);
-        return -1;
-    }
-
-    const grandParentFolder = parentFolder.parent;
-    if (!(grandParentFolder instanceof TFolder)) {
-        // console.warn(`The parent folder "${parentFolder.path}" does not have a parent folder.`);
-        return -1;
+export async function extractBookMetadata(file: TFile): Promise<BookMetadata> {
+    const fileCache = this.app.metadataCache.getFileCache(file);
+    if (fileCache?.frontmatter) {
+        return BookMetadata.fromFrontMatter(fileCache.frontmatter, await this.app.vault.read(file));
+    } else {
+        throw new Error(`No Front Matter found in file: ${file.path}`);
     }
+}
 
-    // 2. 부모 폴더와 동일한 이름의 .md 파일 경로 찾기
-    const parentFolderName = parentFolder.name;
-    const potentialFilePath = `${grandParentFolder.path}/${parentFolderName}.md`;
-    const abstractFile = file.vault.getAbstractFileByPath(potentialFilePath);
-
-    if (!(abstractFile instanceof TFile) || abstractFile.extension !== "md") {
-        // console.warn(`No matching .md file found for parent folder "${parentFolderName}".`);
-        return -1;
-    }
 
-    // 3. MetadataCache를 사용하여 FrontMatter에서 id 가져오기
-    const fileCache = this.app.metadataCache.getFileCache(abstractFile);
-    if (!fileCache || !fileCache.frontmatter) {
-        // console.warn(`No FrontMatter found in the file: ${potentialFilePath}`);
+// 폴더 구조에서 부모 페이지 id를 구한다. (하위 페이지 폴더와 같은 이름의 파일이 부모 페이지)
+function getParentPageId(file: TFile, bookId: number, syncIndex: SyncIndex): number {
+    const parentFolder = file.parent;
+    if (!parentFolder || !parentFolder.parent || findBookFolder(file) === parentFolder) {
         return -1;
     }
 
-    const frontMatter = fileCache.frontmatter;
-    if (!frontMatter.id || typeof frontMatter.id !== "number") {
-        // console.warn(`No 'id' field found in FrontMatter of the file: ${potentialFilePath}`);
+    const parentFile = this.app.vault.getAbstractFileByPath(`${parentFolder.parent.path}/${parentFolder.name}.md`);
+    if (!(parentFile instanceof TFile)) {
         return -1;
     }
-
-    return frontMatter.id;
+    return resolvePage(syncIndex, bookId, parentFile)?.id ?? -1;
 }
 
 
+// Front Matter를 제외한 본문
 export function getPureContent(content: string): string {
-    // Front Matter 감지 (---로 시작하고 끝나는 블록)
-    const frontMatterMatch = content.match(/^---[\s\S]*?---\n/);
-
-    if (frontMatterMatch) {
-        // Front Matter 제외하고 순수 콘텐츠 반환
-        return content.slice(frontMatterMatch[0].length).trim();
-    }
-
-    // Front Matter가 없으면 원본 콘텐츠 반환
-    return content.trim();
+    return removeFrontMatter(content);
 }
 
 
+// 새 페이지에 front matter 추가 (동기화 정보는 동기화 인덱스에 기록된다)
 export async function addFrontMatterToFile(file: TFile) {
-    const now = new Date().toISOString();
-
-    let bookId = -1; // 기본값
-    const metadata = await readTopLevelMetadata(file);
-    if (metadata && metadata.id) {
-        bookId = typeof metadata.id === "string" ? parseInt(metadata.id, 10) : metadata.id as number;
-    } else {
-        // console.warn("No ID found in metadata.md.");
-    }
-
-    const parentId = await getParentId(file);
-    // processFrontMatter를 사용하여 파일의 Front Matter 수정 또는 추가
     await this.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
-        if (!frontMatter) {
-            // Front Matter가 없는 경우 새로 추가
-            frontMatter = {};
-        }
-
-        // 필요한 값 추가 또는 업데이트
         frontMatter["id"] = frontMatter["id"] || -1;
         frontMatter["subject"] = frontMatter["subject"] || sanitizeFileName(file.basename);
-        frontMatter["last_synced"] = ''; // 동기화를 위해 비워둔다.
-        frontMatter["book_id"] = bookId;
-        frontMatter["parent_id"] = parentId;
+        frontMatter["open_yn"] = frontMatter["open_yn"] || "Y";
     });
 }
 
@@ -198,38 +325,84 @@ export async function getBookIdFromMetadata(folderPath: string): Promise<number
 }
 
 
-export async function extractMetadataFromFrontMatter(file: TFile): 
-        Promise<PageMetadata> {
-    // Access the metadata cache
-    const fileCache = this.app.metadataCache.getFileCache(file);
-
-    // Check if frontMatter exists in the cache
-    if (fileCache?.frontmatter) {
-        return PageMetadata.fromFrontMatter(fileCache.frontmatter);
-    } else {
-        throw new Error(`No Front Matter found in file: ${file.path}`);
+// front matter의 공개 여부를 "Y" 또는 "N"으로 읽는다. 소문자(y, n)와 true/false도 받고, 그 밖의 값은 null이다.
+export function parseOpenYn(value: unknown): "Y" | "N" | null {
+    if (typeof value === "boolean") {
+        return value ? "Y" : "N";
     }
+    const openYn = typeof value === "string" ? value.trim().toUpperCase() : null;
+    return openYn === "Y" || openYn === "N" ? openYn : null;
 }
 
 
-export async function savePagesToMarkdown(app:App, pages: any[], folderPath: string) {
-    for (const page of pages) {
+/**
+ * 페이지를 보낼 때 사용하는 메타데이터. 동기화 인덱스와 폴더 구조로 만들고, 공개 여부는 front matter를 따른다.
+ */
+export function getPageMetadata(file: TFile, bookId: number, syncIndex: SyncIndex): PageMetadata {
+    const page = resolvePage(syncIndex, bookId, file);
+    const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const openYn = parseOpenYn(frontMatter?.open_yn);
+
+    return new PageMetadata({
+        id: page?.id ?? -1,
+        subject: extractTitleFromFilePath(file.path),
+        book_id: bookId,
+        parent_id: getParentPageId(file, bookId, syncIndex),
+        // 아직 보내지 않은 페이지의 순서는 front matter에 있다. (updatePageOrder)
+        order: page?.order ?? (typeof frontMatter?.order === "number" ? frontMatter.order : undefined),
+        open_yn: openYn ?? page?.open_yn ?? "Y",
+    });
+}
+
+
+// 서버의 페이지 본문을 로컬 형식으로 바꾸는 함수 (이미지 내려받기 등)
+export type PageContentTransform = (content: string, filePath: string) => Promise<string>;
+
+const keepContent: PageContentTransform = async (content) => content;
+
+
+// 서버 페이지를 내려받은 파일의 동기화 상태 (hash는 로컬 파일의 제목과 본문 기준)
+function toSyncedPage(page: ServerPage, path: string, parentId: number, order: number, hash: string): SyncedPage {
+    return {
+        id: page.id,
+        path,
+        subject: page.subject,
+        parent_id: parentId,
+        order,
+        open_yn: page.open_yn ?? "Y",
+        hash,
+        version: getServerVersion(page),
+        last_synced: new Date().toISOString(),
+    };
+}
+
+
+export async function savePagesToMarkdown(
+    app:App,
+    pages: ServerPage[],
+    folderPath: string,
+    syncIndex: SyncIndex,
+    transform: PageContentTransform = keepContent,
+    parentId = -1
+) {
+    for (const [index, page] of pages.entries()) {
         const sanitizedFileName = sanitizeFileName(page.subject);
         const filePath = `${folderPath}/${sanitizedFileName}.md`;
 
         try {
-            const now = new Date().toISOString();
+            const pageContent = getPureContent(await transform(page.content ?? "No content available.", filePath));
             
             // Front Matter 생성
             const metadata = new PageMetadata(page);
-            metadata.last_synced = now;
             const frontMatter = metadata.getFrontMatter();
 
             // 페이지 내용 추가
-            const content = frontMatter + (page.content ?? "No content available.");
+            const content = frontMatter + pageContent;
 
             // 파일 생성
-            await this.app.vault.create(filePath, content);
+            await trackWrite([filePath], () => this.app.vault.create(filePath, content));
+            await saveBaseContent(page.book_id, page.id, pageContent);
+            syncIndex.setPage(page.book_id, toSyncedPage(page, filePath, parentId, index, hashContent(sanitizedFileName, pageContent)));
 
             if (page.open_yn === "N") {
                 // addLockIcon(filePath);
@@ -240,7 +413,7 @@ export async function savePagesToMarkdown(app:App, pages: any[], folderPath: str
             if (page.children && page.children.length > 0) {
                 const childFolderPath = `${folderPath}/${sanitizedFileName}`;
                 await ensureFolderExists(childFolderPath);
-                await savePagesToMarkdown(app, page.children, childFolderPath);
+                await savePagesToMarkdown(app, page.children, childFolderPath, syncIndex, transform, page.id);
             }
         } catch (error) {
             console.error(`Failed to save page: ${page.subject}`, error);
@@ -249,74 +422,359 @@ export async function savePagesToMarkdown(app:App, pages: any[], folderPath: str
 }
 
 
-export async function isNeedSync(app:App, folder:TFolder) {
-    const files = this.app.vault.getFiles().filter((file: { path: string; }) => file.path.startsWith(folder.path));
+// 서버 페이지의 버전. 제목이나 본문이 바뀌면 달라진다.
+export function getServerVersion(page: ServerPage): string {
+    return hashContent(String(page.subject ?? ""), page.content ?? "");
+}
+
 
-    let changedCount = 0;
-    for (const file of files) {
-        if (file.name === "metadata.md") {
-            continue;
+// 서버의 페이지 트리를 펼친 목록 (parent_id 포함)
+export function toBasePages(pages: ServerPage[]): BasePage[] {
+    const basePages: BasePage[] = [];
+    const collect = (pages: ServerPage[], parentId: number) => {
+        for (const page of pages) {
+            basePages.push({ id: page.id, subject: page.subject, parent_id: parentId });
+            collect(page.children ?? [], page.id);
         }
+    };
+    collect(pages, -1);
+    return basePages;
+}
 
-        const fileContent = await this.app.vault.read(file);
-        const metadata = await extractMetadataFromFrontMatter(file);
 
-        if (!metadata.id) {
-            console.error(`No ID found in Front Matter for file: ${file.path}`);
-            continue;
+// 서버의 페이지 트리에서 id로 페이지 찾기
+export function findServerPage(pages: ServerPage[], pageId: number): ServerPage | null {
+    for (const page of pages) {
+        if (page.id == pageId) {
+            return page;
         }
+        const child = findServerPage(page.children ?? [], pageId);
+        if (child) {
+            return child;
+        }
+    }
+    return null;
+}
 
-        // 동기화 시점 확인
-        const lastSynced = metadata.last_synced ? new Date(metadata.last_synced) : null;
-        const fileModifiedAt = getFileModifiedTime(file);
 
-        const needsSync =
-            !lastSynced || 
-            fileModifiedAt.getTime() - lastSynced.getTime() > 1000 || // 수정 시간 비교
-            sanitizeFileName(metadata.subject) !== sanitizeFileName(extractTitleFromFilePath(file.path)); // 제목 변경 감지
+// 서버의 페이지 트리를 펼쳐서 책의 페이지 목록으로 저장
+export async function saveBookPages(bookId: number, pages: ServerPage[]) {
+    await saveBasePages(bookId, toBasePages(pages));
+}
 
-        if (needsSync) {
-            changedCount++;
+
+export interface MergeSummary {
+    created: number;
+    updated: number;
+    merged: number;
+    conflicted: TFile[];
+    removed: number;
+}
+
+
+/**
+ * 서버의 페이지를 로컬 파일에 3-way 병합한다.
+ * 로컬 변경사항은 유지하고, 겹치는 변경은 conflict marker로 남긴다.
+ */
+export async function mergePagesToMarkdown(
+    app:App,
+    pages: ServerPage[],
+    folder: TFolder,
+    bookId: number,
+    syncIndex: SyncIndex,
+    skipPageIds: number[] = [],
+    transform: PageContentTransform = keepContent,
+    sentContents: Record<number, string> = {}
+): Promise<MergeSummary> {
+    const summary: MergeSummary = { created: 0, updated: 0, merged: 0, conflicted: [], removed: 0 };
+
+    // 동기화 인덱스로 로컬 파일 찾기
+    const localFiles = new Map<number, TFile>();
+    for (const file of getBookPageFiles(folder)) {
+        const page = resolvePage(syncIndex, bookId, file);
+        if (page) {
+            localFiles.set(page.id, file);
         }
     }
-    
-    if(changedCount > 0) {
-        return true;
-    }else {
-        return false;
+
+    const mergePages = async (pages: ServerPage[], folderPath: string, parentId: number) => {
+        for (const [index, page] of pages.entries()) {
+            try {
+                let fileName = sanitizeFileName(page.subject);
+                const serverContent = getPureContent(await transform(page.content ?? "No content available.", `${folderPath}/${fileName}.md`));
+                const metadata = new PageMetadata(page);
+                let hash = hashContent(fileName, serverContent);
+
+                let localFile = localFiles.get(page.id);
+                localFiles.delete(page.id);
+
+                if (!localFile) {
+                    // 같은 경로의 신규 페이지가 있으면 그 파일에 병합한다.
+                    const existingFile = this.app.vault.getAbstractFileByPath(`${folderPath}/${fileName}.md`);
+                    if (existingFile instanceof TFile && !resolvePage(syncIndex, bookId, existingFile)) {
+                        localFile = existingFile;
+                    }
+                }
+
+                if (!localFile && skipPageIds.includes(page.id)) {
+                    // 삭제 대기 중인 페이지는 다시 만들지 않는다.
+                } else if (!localFile) {
+                    // 새로 추가된 페이지
+                    await trackWrite([`${folderPath}/${fileName}.md`], () => this.app.vault.create(`${folderPath}/${fileName}.md`, metadata.getFrontMatter() + serverContent));
+                    syncIndex.setPage(bookId, toSyncedPage(page, `${folderPath}/${fileName}.md`, parentId, index, hash));
+                    summary.created++;
+                } else {
+                    const localFileContent = await this.app.vault.read(localFile);
+                    const localContent = getPureContent(localFileContent);
+                    const baseContent = await readBaseContent(bookId, page.id);
+                    const result = mergeThreeWay(baseContent, localContent, serverContent);
+
+                    // 로컬에서 파일명을 바꾼 경우 로컬 파일명을 유지
+                    const syncedPage = syncIndex.getPage(bookId, page.id);
+                    if (syncedPage && sanitizeFileName(syncedPage.subject) !== localFile.basename) {
+                        fileName = localFile.basename;
+                    }
+
+                    const filePath = `${folderPath}/${fileName}.md`;
+                    if (localFile.path !== filePath && !this.app.vault.getAbstractFileByPath(filePath)) {
+                        await ensureFolderExists(folderPath);
+                        await trackWrite([localFile.path, filePath], () => this.app.vault.rename(localFile, filePath));
+                    }
+
+                    // 방금 보낸 페이지는 변환(주석 제거 등) 전의 로컬 내용을 유지한다.
+                    const isSent = sentContents[page.id] === localContent;
+                    if (isSent) {
+                        hash = hashContent(fileName, localContent);
+                    }
+
+                    // hash는 서버 내용 기준이므로 병합 결과가 서버와 다르면 보내기 대상으로 남는다.
+                    await trackWrite([localFile.path], () => this.app.vault.modify(localFile, metadata.getFrontMatter(localFileContent) + (isSent ? localContent : result.content)));
+                    syncIndex.setPage(bookId, toSyncedPage(page, localFile.path, parentId, index, hash));
+
+                    if (isSent) {
+                        // 보낸 내용 그대로이므로 변경으로 세지 않는다.
+                    } else if (result.conflicts > 0) {
+                        summary.conflicted.push(localFile);
+                    } else if (result.content !== localContent) {
+                        if (localContent === baseContent) {
+                            summary.updated++;
+                        } else {
+                            summary.merged++;
+                        }
+                    }
+                }
+
+                await saveBaseContent(bookId, page.id, serverContent);
+
+                // 하위 페이지 처리
+                if (page.children && page.children.length > 0) {
+                    const childFolderPath = `${folderPath}/${fileName}`;
+                    await ensureFolderExists(childFolderPath);
+                    await mergePages(page.children, childFolderPath, page.id);
+                }
+            } catch (error) {
+                console.error(`Failed to merge page: ${page.subject}`, error);
+            }
+        }
+    };
+
+    await mergePages(pages, folder.path, -1);
+
+    // 서버에서 삭제된 페이지
+    for (const [pageId, file] of localFiles) {
+        const localContent = getPureContent(await this.app.vault.read(file));
+        const baseContent = await readBaseContent(bookId, pageId);
+        if (localContent === baseContent) {
+            await trackWrite([file.path], () => this.app.fileManager.trashFile(file));
+            summary.removed++;
+        } else {
+            // 로컬에서 수정된 페이지는 신규 페이지로 남긴다.
+            await trackWrite([file.path], () => this.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
+                frontMatter["id"] = -1;
+            }));
+        }
+        syncIndex.removePage(bookId, pageId);
+        await removeBaseContent(bookId, pageId);
     }
+
+    await deleteEmptyFolders(folder);
+    return summary;
 }
 
 
-export async function addLockIconToFile(file: TFile) {
-    // 메타데이터 읽기
-    const metadata = this.app.metadataCache.getFileCache(file);
-    if (metadata?.frontmatter?.open_yn === "N") {
-        // 파일 탐색기에서 해당 파일에 자물쇠 아이콘 추가
-        const explorerLeaf = document.querySelector(
-            `.nav-file-title[data-path="${file.path}"]`
-        );
-        if (explorerLeaf) {
-            // 이미 아이콘이 추가된 경우 중복 추가 방지
-            const existingIcon = explorerLeaf.querySelector(".lock-icon");
-            if (!existingIcon) {
-                const lockIcon = document.createElement("span");
-                lockIcon.className = "lock-icon";
-                explorerLeaf.appendChild(lockIcon);
+/**
+ * 서버의 페이지 하나를 로컬 파일에 반영한다.
+ * discardLocal이면 서버 내용으로 바꾸고, 아니면 base를 기준으로 병합한다. (겹치는 변경은 conflict marker로 남긴다)
+ */
+export async function pullPage(
+    file: TFile,
+    page: ServerPage,
+    bookId: number,
+    syncIndex: SyncIndex,
+    discardLocal: boolean,
+    transform: PageContentTransform = keepContent
+): Promise<MergeResult> {
+    const serverContent = getPureContent(await transform(page.content ?? "", file.path));
+    const fileContent = await this.app.vault.read(file);
+    const localContent = getPureContent(fileContent);
+    const result = discardLocal
+        ? { content: serverContent, conflicts: 0 }
+        : mergeThreeWay(await readBaseContent(bookId, page.id), localContent, serverContent);
+
+    const frontMatter = getFrontMatterBlock(fileContent);
+    await trackWrite([file.path], () => this.app.vault.modify(file, frontMatter + result.content));
+    await saveBaseContent(bookId, page.id, serverContent);
+
+    // 제목, 위치 등 본문 밖의 변경은 보내기 대상으로 남긴다.
+    const syncedPage = syncIndex.getPage(bookId, page.id);
+    if (syncedPage) {
+        syncedPage.hash = hashContent(file.basename, serverContent);
+        syncedPage.version = getServerVersion(page);
+        syncedPage.last_synced = new Date().toISOString();
+    }
+    return result;
+}
+
+
+// 페이지의 순서 (아직 보내지 않은 페이지는 front matter에 기록된다)
+function getPageOrder(file: TFile, syncIndex: SyncIndex): number | undefined {
+    const order = syncIndex.findByPath(file.path)?.order ?? this.app.metadataCache.getFileCache(file)?.frontmatter?.order;
+    return typeof order === "number" ? order : undefined;
+}
+
+
+// 폴더 바로 아래의 페이지를 위키독스 순서(order)대로 정렬해서 반환
+export function getSiblingPages(folder: TFolder, syncIndex: SyncIndex): TFile[] {
+    const getOrder = (file: TFile) => getPageOrder(file, syncIndex) ?? Number.MAX_SAFE_INTEGER;
+
+    return folder.children
+        .filter((child): child is TFile => child instanceof TFile && child.extension === "md" && child.name !== "metadata.md")
+        .sort((a, b) => getOrder(a) - getOrder(b) || a.basename.localeCompare(b.basename));
+}
+
+
+// 페이지 순서를 동기화 인덱스(신규 페이지는 front matter)에 기록하고, 순서가 바뀐 페이지는 보내기 대상으로 표시
+export async function updatePageOrder(files: TFile[], syncIndex: SyncIndex) {
+    for (const [index, file] of files.entries()) {
+        const page = syncIndex.findByPath(file.path);
+        if (page) {
+            if (page.order !== index) {
+                page.order = index;
+                page.dirty = true;
             }
+        } else if (getPageOrder(file, syncIndex) !== index) {
+            await this.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
+                frontMatter["order"] = index;
+            });
         }
-    } else {
-        // open_yn이 "Y" 또는 없는 경우 아이콘 제거
-        const explorerLeaf = document.querySelector(
-            `.nav-file-title[data-path="${file.path}"]`
-        );
-        if (explorerLeaf) {
-            const existingIcon = explorerLeaf.querySelector(".lock-icon");
-            if (existingIcon) {
-                existingIcon.remove();
-            }
+    }
+}
+
+
+// 페이지와 모든 하위 페이지 (하위 페이지는 페이지 옆의 같은 이름 폴더에 있다)
+export function getPageSubtree(file: TFile): TFile[] {
+    const folderPath = `${file.parent?.path}/${file.basename}/`;
+    return [file, ...this.app.vault.getMarkdownFiles().filter((page: TFile) => page.path.startsWith(folderPath))];
+}
+
+
+// 책 폴더 안의 페이지 파일 (metadata.md 제외)
+export function getBookPageFiles(folder: TFolder): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter((file: TFile) =>
+        file.path.startsWith(`${folder.path}/`) && file.name !== "metadata.md"
+    );
+}
+
+
+/**
+ * 마지막 동기화 이후 페이지가 바뀌었는지 확인한다. (제목, 내용, 위치, 공개 여부, 순서)
+ * page는 동기화 인덱스의 페이지이고, 없으면 신규 페이지이다.
+ */
+export function isPageChanged(file: TFile, metadata: PageMetadata, fileContent: string, page: SyncedPage | null): boolean {
+    // 신규 페이지 또는 순서를 바꾼 페이지
+    if (!page || page.dirty) {
+        return true;
+    }
+
+    if (metadata.parent_id !== page.parent_id || metadata.open_yn !== page.open_yn) {
+        return true;
+    }
+
+    const title = extractTitleFromFilePath(file.path);
+    if (page.hash) {
+        return hashContent(title, getPureContent(fileContent)) !== page.hash;
+    }
+
+    // hash가 없는 이전 버전의 페이지는 수정 시간으로 비교
+    const lastSynced = new Date(page.last_synced);
+    const fileModifiedAt = getFileModifiedTime(file);
+    return fileModifiedAt.getTime() - lastSynced.getTime() > 1000 || // 수정 시간 비교
+        sanitizeFileName(page.subject) !== sanitizeFileName(title); // 제목 변경 감지
+}
+
+
+// 보내기 미리보기에 표시하는 변경 종류
+export type PageChangeKind = "new" | "modified" | "renamed" | "moved";
+
+// 서버에서도 바뀐 페이지의 처리 방법 (보내지 않음, 덮어쓰기, 서버 버전 받기, 병합)
+export type ConflictResolution = "skip" | "overwrite" | "pull" | "merge";
+
+export interface PageChange {
+    file: TFile;
+    metadata: PageMetadata;
+    kinds: PageChangeKind[];
+    baseContent: string; // 마지막 동기화 시점의 본문 (신규 페이지는 빈 문자열)
+    localContent: string;
+    serverChanged: boolean; // 마지막 동기화 이후 서버에서도 바뀐 페이지
+}
+
+/**
+ * 마지막 동기화 시점(base)과 비교해서 페이지가 어떻게 바뀌었는지 구한다.
+ */
+export async function getPageChange(file: TFile, metadata: PageMetadata, fileContent: string, bookId: number, basePages: BasePage[]): Promise<PageChange> {
+    const localContent = getPureContent(fileContent);
+    const basePage = basePages.find((page) => page.id == metadata.id);
+    if (metadata.id == -1 || !basePage) {
+        return { file, metadata, kinds: ["new"], baseContent: "", localContent, serverChanged: false };
+    }
+
+    const baseContent = await readBaseContent(bookId, basePage.id) ?? "";
+    const kinds: PageChangeKind[] = [];
+    if (baseContent !== localContent) {
+        kinds.push("modified");
+    }
+    if (sanitizeFileName(basePage.subject) !== extractTitleFromFilePath(file.path)) {
+        kinds.push("renamed");
+    }
+    if (Number(metadata.parent_id ?? -1) !== basePage.parent_id) {
+        kinds.push("moved");
+    }
+    return { file, metadata, kinds, baseContent, localContent, serverChanged: false };
+}
+
+
+// 마지막 동기화 이후 바뀐 페이지 수
+export async function countChangedPages(folder: TFolder, syncIndex: SyncIndex): Promise<number> {
+    const bookId = await getBookIdFromMetadata(folder.path);
+    if (!bookId) {
+        return 0;
+    }
+
+    let changedCount = 0;
+    for (const file of getBookPageFiles(folder)) {
+        const fileContent = await this.app.vault.cachedRead(file);
+        const metadata = getPageMetadata(file, bookId, syncIndex);
+
+        if (isPageChanged(file, metadata, fileContent, resolvePage(syncIndex, bookId, file))) {
+            changedCount++;
         }
     }
+    return changedCount;
+}
+
+
+export async function isNeedSync(app:App, folder:TFolder, syncIndex: SyncIndex) {
+    return await countChangedPages(folder, syncIndex) > 0;
 }
 
 
@@ -381,35 +839,42 @@ export async function addBlogIconToFile(folderPath:any, blog:any) {
 }
 
 // blog
+
+// 블로그 태그를 문자열 배열로 바꾼다.
+// 서버는 "a,b" 형식의 문자열이나 배열로, 이전 버전이 쓴 Front Matter는 "a,b" 문자열로 태그를 준다.
+export function parseBlogTags(value: unknown): string[] {
+    const tags = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+    return [...new Set(tags.map((tag) => String(tag ?? "").trim().replace(/^#/, "")).filter((tag) => tag))];
+}
+
+// 블로그 글의 제목, 본문, 태그, 공개 여부의 hash (마지막 동기화 이후 수정되었는지 비교한다)
+export function hashBlogPost(title: string, content: string, tags: string[], isPublic: boolean): string {
+    return hashContent(title, [content, tags.join(","), String(isPublic)].join("\n"));
+}
+
 export class BlogMetadata {
     id: number;
-    tags: any;
+    tags: string[];
     is_public: boolean;
     last_synced?: string;
+    hash?: string; // 마지막 동기화 시점의 hash (hashBlogPost)
     
     constructor(data: {
         id: number;
-        tags: string;
+        tags: unknown;
         is_public: boolean;
         last_synced?: string;
+        hash?: string;
     }) {
         this.id = data.id;
-
-        // console.log(data.tags)
-
-        if(data.tags) {
-            this.tags = data.tags;
-        }else {
-            this.tags = [];
-        }
-
-        // this.tags = data.tags;
+        this.tags = parseBlogTags(data.tags);
         this.is_public = data.is_public;
         this.last_synced = data.last_synced;
+        this.hash = data.hash;
     }
 
     // MetadataCache에서 제공된 frontmatter 객체를 처리
-    static fromFrontMatter(frontMatter: Record<string, any>): BlogMetadata {
+    static fromFrontMatter(frontMatter: FrontMatterCache): BlogMetadata {
         if (!frontMatter.id) {
             throw new Error("Front Matter must contain 'id'.");
         }
@@ -419,41 +884,43 @@ export class BlogMetadata {
             tags: frontMatter.tags,
             is_public: frontMatter.is_public,
             last_synced: frontMatter.last_synced,
+            hash: frontMatter.hash,
         });
     }
 
-    getFrontMatter(): string {
-        const frontMatter = `---\n` +
-            `id: ${this.id}\n` +
-            `tags: ${this.tags}\n` +
-            `is_public: ${this.is_public}\n` +
-            `last_synced: ${this.last_synced}\n` +
-            `---\n`;
-        return frontMatter;
+    // 태그는 YAML 목록으로 쓴다.
+    getFrontMatter(content: string | null = null): string {
+        return mergeFrontMatter(content, {
+            id: this.id,
+            tags: this.tags,
+            is_public: this.is_public,
+            last_synced: this.last_synced ?? "",
+            hash: this.hash ?? "",
+        });
     }
 }
 
-export async function saveBlogToMarkdown(app:App, blog: any, folderPath: string) {
+// 서버의 블로그 글을 Front Matter(last_synced는 지금 시각)와 본문으로 된 파일 내용으로 만든다.
+// 기존 파일 내용(content)을 넘기면 Front Matter의 다른 키는 유지한다. title은 글을 저장할 파일의 제목이다.
+export function getBlogMarkdown(blog: BlogPost, content: string | null = null, title = sanitizeFileName(blog.title)): string {
+    const metadata = new BlogMetadata(blog);
+    const body = blog.content ?? "No content available.";
+    metadata.last_synced = new Date().toISOString();
+    metadata.hash = hashBlogPost(title, body, metadata.tags, metadata.is_public !== false);
+    return metadata.getFrontMatter(content) + body;
+}
+
+export async function saveBlogToMarkdown(app:App, blog: BlogPost, folderPath: string) {
     const sanitizedFileName = sanitizeFileName(blog.title);
     const filePath = `${folderPath}/${sanitizedFileName}.md`;
     
     try {
-        const now = new Date().toISOString();
-        
-        // Front Matter 생성
-        const metadata = new BlogMetadata(blog);
-        metadata.last_synced = now;
-        const frontMatter = metadata.getFrontMatter();
-
-        // 페이지 내용 추가
-        const content = frontMatter + (blog.content ?? "No content available.");
-
         // 파일 생성
         let file = this.app.vault.getAbstractFileByPath(filePath);
         if (file instanceof TFile) {
-            await this.app.vault.modify(file, content);
+            await this.app.vault.modify(file, getBlogMarkdown(blog, await this.app.vault.read(file)));
         }else {
-            file = await this.app.vault.create(filePath, content);
+            file = await this.app.vault.create(filePath, getBlogMarkdown(blog));
         }
 
         await addBlogIconToFile(filePath, blog);
@@ -480,7 +947,7 @@ export async function addBlogFrontMatterToFile(file: TFile) {
 
         // 필요한 값 추가 또는 업데이트
         frontMatter["id"] = frontMatter["id"] || -1;
-        frontMatter["tags"] = '';
+        frontMatter["tags"] = parseBlogTags(frontMatter["tags"]); // 이미 쓴 태그는 유지한다.
         frontMatter["is_public"] = true;
         frontMatter["last_synced"] = ''; // 동기화를 위해 비워둔다.
     });
@@ -497,4 +964,34 @@ export async function extractMetadataFromBlogFrontMatter(file: TFile):
     } else {
         throw new Error(`No Front Matter found in file: ${file.path}`);
     }
-}
\ No newline at end of file
+}
+
+// 블로그 폴더 안의 글 (blog_metadata.md 제외)
+export function getBlogPostFiles(folder: TFolder): TFile[] {
+    return folder.children.filter((child): child is TFile =>
+        child instanceof TFile && child.extension === "md" && child.name !== "blog_metadata.md"
+    );
+}
+
+
+/**
+ * 보내지 않은 새 글이면 "new", 마지막 동기화 이후 수정된 글이면 "modified", 아니면 null을 반환한다.
+ */
+export async function getBlogPostChange(file: TFile): Promise<"new" | "modified" | null> {
+    const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontMatter?.id || frontMatter.id == -1) {
+        return "new";
+    }
+
+    if (frontMatter.hash) {
+        const content = getPureContent(await this.app.vault.cachedRead(file));
+        const hash = hashBlogPost(extractTitleFromFilePath(file.path), content, parseBlogTags(frontMatter.tags), frontMatter.is_public !== false);
+        return hash !== frontMatter.hash ? "modified" : null;
+    }
+
+    // hash가 없는 이전 버전의 글은 수정 시간으로 비교
+    if (!frontMatter.last_synced || getFileModifiedTime(file).getTime() - new Date(frontMatter.last_synced).getTime() > 1000) {
+        return "modified";
+    }
+    return null;
+}
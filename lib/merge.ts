@@ -0,0 +1,236 @@
+// 3-way 병합에 사용하는 줄 단위 diff/merge 유틸리티
+
+export const CONFLICT_MARKER_LOCAL = "<<<<<<< Obsidian";
+export const CONFLICT_MARKER_SEPARATOR = "=======";
+export const CONFLICT_MARKER_SERVER = ">>>>>>> WikiDocs";
+
+// LCS 테이블이 너무 커지면 변경 구간 전체를 하나의 hunk로 처리한다.
+const MAX_LCS_CELLS = 25_000_000;
+
+/**
+ * base[baseStart, baseEnd) 구간이 lines로 바뀌었음을 나타낸다.
+ */
+export interface Hunk {
+    baseStart: number;
+    baseEnd: number;
+    lines: string[];
+}
+
+export interface MergeResult {
+    content: string;
+    conflicts: number;
+}
+
+export function splitLines(content: string): string[] {
+    if (content === "") {
+        return [];
+    }
+    return content.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * base를 other로 바꾸는 hunk 목록을 반환한다. (LCS 기반)
+ */
+export function diffLines(base: string[], other: string[]): Hunk[] {
+    // 공통 prefix/suffix 제거
+    let prefix = 0;
+    while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < base.length - prefix &&
+        suffix < other.length - prefix &&
+        base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const a = base.slice(prefix, base.length - suffix);
+    const b = other.slice(prefix, other.length - suffix);
+    if (a.length === 0 && b.length === 0) {
+        return [];
+    }
+
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+        return [{ baseStart: prefix, baseEnd: prefix + n, lines: b }];
+    }
+
+    // lcs[i][j] = a[i..], b[j..]의 LCS 길이
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && a[i] === b[j]) {
+            current = null;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { baseStart: prefix + i, baseEnd: prefix + i, lines: [] };
+            hunks.push(current);
+        }
+        if (j < m && (i >= n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+            current.lines.push(b[j]);
+            j++;
+        } else {
+            current.baseEnd++;
+            i++;
+        }
+    }
+    return hunks;
+}
+
+export interface DiffLine {
+    type: "context" | "added" | "removed";
+    text: string;
+}
+
+/**
+ * base와 other의 차이를 unified diff 형식으로 반환한다.
+ * 변경 구간마다 앞뒤 context줄을 붙이고, 가까운 구간은 하나로 묶는다.
+ */
+export function unifiedDiff(base: string, other: string, context = 3): DiffLine[][] {
+    const baseLines = splitLines(base);
+    const chunks: DiffLine[][] = [];
+    let chunk: DiffLine[] | null = null;
+    let position = 0;
+
+    const pushContext = (start: number, end: number) => {
+        for (const text of baseLines.slice(start, end)) {
+            chunk?.push({ type: "context", text });
+        }
+    };
+
+    for (const hunk of diffLines(baseLines, splitLines(other))) {
+        if (chunk && hunk.baseStart - position <= context * 2) {
+            pushContext(position, hunk.baseStart);
+        } else {
+            if (chunk) {
+                pushContext(position, position + context);
+                chunks.push(chunk);
+            }
+            chunk = [];
+            pushContext(Math.max(position, hunk.baseStart - context), hunk.baseStart);
+        }
+
+        for (const text of baseLines.slice(hunk.baseStart, hunk.baseEnd)) {
+            chunk.push({ type: "removed", text });
+        }
+        for (const text of hunk.lines) {
+            chunk.push({ type: "added", text });
+        }
+        position = hunk.baseEnd;
+    }
+
+    if (chunk) {
+        pushContext(position, position + context);
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+// base의 [start, end) 구간에 hunk들을 적용한 결과
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+    const result: string[] = [];
+    let position = start;
+    for (const hunk of hunks) {
+        result.push(...base.slice(position, hunk.baseStart));
+        result.push(...hunk.lines);
+        position = hunk.baseEnd;
+    }
+    result.push(...base.slice(position, end));
+    return result;
+}
+
+function isSameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * base를 기준으로 local과 server의 변경사항을 병합한다.
+ * 겹치는 변경은 conflict marker로 감싸서 남긴다.
+ * base가 없으면(이전 버전에서 내려받은 책) 어느 쪽이 바뀌었는지 알 수 없으므로 파일 전체를 충돌로 남긴다.
+ */
+export function mergeThreeWay(base: string | null, local: string, server: string): MergeResult {
+    if (local === server) {
+        return { content: server, conflicts: 0 };
+    }
+    if (base === null) {
+        return {
+            content: [CONFLICT_MARKER_LOCAL, ...splitLines(local), CONFLICT_MARKER_SEPARATOR, ...splitLines(server), CONFLICT_MARKER_SERVER].join("\n"),
+            conflicts: 1,
+        };
+    }
+    if (local === base) {
+        return { content: server, conflicts: 0 };
+    }
+    if (server === base) {
+        return { content: local, conflicts: 0 };
+    }
+
+    const baseLines = splitLines(base);
+    const changes = [
+        ...diffLines(baseLines, splitLines(local)).map((hunk) => ({ side: "local", hunk })),
+        ...diffLines(baseLines, splitLines(server)).map((hunk) => ({ side: "server", hunk })),
+    ].sort((x, y) => x.hunk.baseStart - y.hunk.baseStart || x.hunk.baseEnd - y.hunk.baseEnd);
+
+    const result: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let index = 0;
+    while (index < changes.length) {
+        // 겹치는 hunk들을 하나의 그룹으로 묶는다.
+        const group = [changes[index]];
+        let start = changes[index].hunk.baseStart;
+        let end = changes[index].hunk.baseEnd;
+        index++;
+        while (
+            index < changes.length &&
+            (changes[index].hunk.baseStart < end || changes[index].hunk.baseStart === start)
+        ) {
+            start = Math.min(start, changes[index].hunk.baseStart);
+            end = Math.max(end, changes[index].hunk.baseEnd);
+            group.push(changes[index]);
+            index++;
+        }
+
+        result.push(...baseLines.slice(position, start));
+        position = end;
+
+        const localHunks = group.filter((change) => change.side === "local").map((change) => change.hunk);
+        const serverHunks = group.filter((change) => change.side === "server").map((change) => change.hunk);
+        const localLines = applyHunks(baseLines, start, end, localHunks);
+        const serverLines = applyHunks(baseLines, start, end, serverHunks);
+
+        if (localHunks.length === 0) {
+            result.push(...serverLines);
+        } else if (serverHunks.length === 0 || isSameLines(localLines, serverLines)) {
+            result.push(...localLines);
+        } else {
+            conflicts++;
+            result.push(CONFLICT_MARKER_LOCAL, ...localLines, CONFLICT_MARKER_SEPARATOR, ...serverLines, CONFLICT_MARKER_SERVER);
+        }
+    }
+    result.push(...baseLines.slice(position));
+
+    return { content: result.join("\n"), conflicts };
+}
+
+export function hasConflictMarkers(content: string): boolean {
+    return content.split("\n").some((line) => line === CONFLICT_MARKER_LOCAL || line === CONFLICT_MARKER_SERVER);
+}
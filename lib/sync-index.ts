@@ -0,0 +1,151 @@
+import { TFile } from "obsidian";
+
+import { findBookFolder } from "./utils";
+
+// 책별로 로컬 파일과 위키독스 페이지의 동기화 상태를 플러그인 데이터(data.json)에 보관한다.
+// front matter를 지우거나 고쳐도 경로로 페이지를 찾을 수 있고, 이름 변경/이동/복제를 구분할 수 있다.
+
+// 마지막 동기화 시점의 페이지 상태
+export interface SyncedPage {
+    id: number;
+    path: string; // vault 경로 (이름 변경, 이동 이벤트에서 갱신한다)
+    subject: string; // 서버의 제목
+    parent_id: number;
+    order?: number; // 형제 페이지 사이의 순서
+    open_yn: string;
+    hash: string; // 제목과 본문의 hash (비어 있으면 수정 시간으로 비교한다)
+    version: string; // 서버 페이지 버전 (비어 있으면 서버 변경을 확인하지 않는다)
+    last_synced: string;
+    dirty?: boolean; // 순서 변경 등 본문 밖의 변경을 보내야 하는 페이지
+}
+
+// 책 id별, 페이지 id별 동기화 상태
+export type SyncIndexData = Record<string, Record<string, SyncedPage>>;
+
+export class SyncIndex {
+    private data: SyncIndexData;
+
+    constructor(data: SyncIndexData) {
+        this.data = data;
+    }
+
+    hasBook(bookId: number): boolean {
+        return !!this.data[bookId];
+    }
+
+    addBook(bookId: number) {
+        if (!this.data[bookId]) {
+            this.data[bookId] = {};
+        }
+    }
+
+    getPages(bookId: number): SyncedPage[] {
+        return Object.values(this.data[bookId] ?? {});
+    }
+
+    getPage(bookId: number, pageId: number): SyncedPage | null {
+        return this.data[bookId]?.[pageId] ?? null;
+    }
+
+    // 경로로 페이지 찾기 (모든 책)
+    findByPath(path: string): SyncedPage | null {
+        for (const pages of Object.values(this.data)) {
+            const page = Object.values(pages).find((page) => page.path === path);
+            if (page) {
+                return page;
+            }
+        }
+        return null;
+    }
+
+    setPage(bookId: number, page: SyncedPage) {
+        this.addBook(bookId);
+        this.data[bookId][page.id] = page;
+    }
+
+    removePage(bookId: number, pageId: number) {
+        if (this.data[bookId]) {
+            delete this.data[bookId][pageId];
+        }
+    }
+
+    /**
+     * 파일이나 폴더의 이름이 바뀌면 그 아래 페이지의 경로를 갱신한다. 바뀐 페이지가 있으면 true를 반환한다.
+     */
+    renamePath(oldPath: string, newPath: string): boolean {
+        let renamed = false;
+        for (const pages of Object.values(this.data)) {
+            for (const page of Object.values(pages)) {
+                if (page.path === oldPath) {
+                    page.path = newPath;
+                    renamed = true;
+                } else if (page.path.startsWith(`${oldPath}/`)) {
+                    page.path = newPath + page.path.substring(oldPath.length);
+                    renamed = true;
+                }
+            }
+        }
+        return renamed;
+    }
+}
+
+
+// 이전 버전에서 내려받은 책은 처음 한 번 front matter의 동기화 정보로 인덱스를 만든다.
+function importFrontMatter(index: SyncIndex, bookId: number, file: TFile) {
+    index.addBook(bookId);
+    const bookFolder = findBookFolder(file);
+    if (!bookFolder) {
+        return;
+    }
+
+    const files: TFile[] = this.app.vault.getMarkdownFiles().filter((pageFile: TFile) =>
+        pageFile.path.startsWith(`${bookFolder.path}/`) && pageFile.name !== "metadata.md"
+    );
+    for (const pageFile of files) {
+        const frontMatter = this.app.metadataCache.getFileCache(pageFile)?.frontmatter;
+        const id = Number(frontMatter?.id);
+        if (!frontMatter || !(id > 0) || index.getPage(bookId, id)) {
+            continue; // 신규 페이지 또는 복제된 파일
+        }
+
+        const parentId = Number(frontMatter.parent_id);
+        index.setPage(bookId, {
+            id,
+            path: pageFile.path,
+            subject: String(frontMatter.subject ?? pageFile.basename),
+            parent_id: parentId > 0 ? parentId : -1,
+            order: typeof frontMatter.order === "number" ? frontMatter.order : undefined,
+            open_yn: frontMatter.open_yn === "N" ? "N" : "Y",
+            hash: String(frontMatter.hash ?? ""),
+            version: "",
+            last_synced: String(frontMatter.last_synced ?? ""),
+            dirty: !frontMatter.last_synced, // 이동, 순서 변경 등으로 비워둔 페이지
+        });
+    }
+}
+
+
+/**
+ * 파일에 연결된 위키독스 페이지를 찾는다. 아직 보내지 않은 신규 페이지는 null을 반환한다.
+ * 인덱스에 없는 경로는 front matter의 id로 찾는다.
+ * - 인덱스의 원래 파일이 없으면 Obsidian 밖에서 옮긴 파일로 보고 경로를 갱신한다.
+ * - 원래 파일이 남아 있으면 복제한 파일이므로 신규 페이지로 본다.
+ */
+export function resolvePage(index: SyncIndex, bookId: number, file: TFile): SyncedPage | null {
+    if (!index.hasBook(bookId)) {
+        importFrontMatter(index, bookId, file);
+    }
+
+    const page = index.getPages(bookId).find((page) => page.path === file.path);
+    if (page) {
+        return page;
+    }
+
+    const id = Number(this.app.metadataCache.getFileCache(file)?.frontmatter?.id);
+    const indexed = id > 0 ? index.getPage(bookId, id) : null;
+    if (!indexed || this.app.vault.getAbstractFileByPath(indexed.path) instanceof TFile) {
+        return null;
+    }
+    indexed.path = file.path;
+    return indexed;
+}
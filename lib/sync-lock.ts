@@ -0,0 +1,73 @@
+// 동기화 작업을 한 번에 하나씩 실행한다.
+// 자동 동기화와 메뉴에서 실행한 동기화가 섞이지 않도록 한다. 동기화가 쓴 파일의 vault 이벤트는 trackWrite로 구분한다.
+export class SyncLock {
+    private queue: Promise<unknown> = Promise.resolve();
+    private count = 0; // 실행 중이거나 기다리는 작업 수
+
+    get isLocked(): boolean {
+        return this.count > 0;
+    }
+
+    /**
+     * 앞의 작업이 끝나면 task를 실행한다.
+     */
+    run<T>(task: () => Promise<T>): Promise<T> {
+        this.count++;
+        const result = this.queue.then(task);
+        this.queue = result
+            .catch(() => undefined)
+            .then(() => {
+                this.count--;
+            });
+        return result;
+    }
+
+    /**
+     * 다른 작업이 실행 중이면 건너뛰고 null을 반환한다. (자동 동기화용)
+     */
+    async tryRun<T>(task: () => Promise<T>): Promise<T | null> {
+        if (this.isLocked) {
+            return null;
+        }
+        return await this.run(task);
+    }
+}
+
+
+// 플러그인이 쓰고 있거나 방금 쓴 경로별 쓰기 수
+// vault 이벤트는 쓰기가 끝난 뒤에 올 수도 있어서 끝나고 잠시 동안 남겨 둔다.
+const ownWrites = new Map<string, number>();
+const OWN_WRITE_GRACE = 1000;
+
+/**
+ * 동기화가 paths에 쓰는 task를 실행한다. 그 경로의 vault 이벤트는 사용자의 변경으로 처리하지 않는다. (isOwnWrite)
+ */
+export async function trackWrite<T>(paths: string[], task: () => Promise<T>): Promise<T> {
+    for (const path of paths) {
+        ownWrites.set(path, (ownWrites.get(path) ?? 0) + 1);
+    }
+    try {
+        return await task();
+    } finally {
+        setTimeout(() => {
+            for (const path of paths) {
+                const count = (ownWrites.get(path) ?? 1) - 1;
+                if (count > 0) {
+                    ownWrites.set(path, count);
+                } else {
+                    ownWrites.delete(path);
+                }
+            }
+        }, OWN_WRITE_GRACE);
+    }
+}
+
+// 동기화가 쓴 경로이거나 그 아래 경로(이름을 바꾼 폴더의 파일)인지 확인
+export function isOwnWrite(path: string): boolean {
+    for (const ownPath of ownWrites.keys()) {
+        if (path === ownPath || path.startsWith(`${ownPath}/`)) {
+            return true;
+        }
+    }
+    return false;
+}
@@ -0,0 +1,102 @@
+import { requestUrl } from "obsidian";
+
+// ApiClient가 사용하는 HTTP 전송 계층
+// 기본은 Obsidian의 requestUrl이고, 테스트에서는 FakeWikiDocsServer(lib/fake-server.ts)로 바꿀 수 있다.
+
+export interface HttpRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string | ArrayBuffer;
+}
+
+export interface HttpResponse {
+    status: number;
+    headers: Record<string, string>; // 이름은 소문자
+    text: string;
+    arrayBuffer: ArrayBuffer;
+}
+
+export interface HttpTransport {
+    // 연결하지 못하면 예외를 던지고, HTTP 오류 상태는 그대로 반환한다.
+    request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+export function isOk(response: HttpResponse): boolean {
+    return response.status >= 200 && response.status < 300;
+}
+
+function toLowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        result[name.toLowerCase()] = value;
+    }
+    return result;
+}
+
+/**
+ * Obsidian의 requestUrl을 사용하는 기본 전송 계층.
+ * 브라우저 fetch와 달리 CORS 제한이 없고 모바일에서도 동작한다.
+ */
+export class RequestUrlTransport implements HttpTransport {
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        const response = await requestUrl({
+            url: request.url,
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            throw: false,
+        });
+
+        let text = "";
+        try {
+            text = response.text;
+        } catch (error) {
+            // 텍스트가 아닌 응답 (이미지 등)
+        }
+        return {
+            status: response.status,
+            headers: toLowerCaseKeys(response.headers),
+            text,
+            arrayBuffer: response.arrayBuffer,
+        };
+    }
+}
+
+export interface MultipartFile {
+    fileName: string;
+    data: ArrayBuffer;
+}
+
+/**
+ * multipart/form-data 본문을 만든다. (requestUrl은 FormData를 지원하지 않는다)
+ */
+export function encodeMultipart(fields: Record<string, string | MultipartFile>): { body: ArrayBuffer; contentType: string } {
+    const boundary = `----WikiDocsBoundary${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+
+    for (const [name, value] of Object.entries(fields)) {
+        if (typeof value === "string") {
+            parts.push(encoder.encode(
+                `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+            ));
+        } else {
+            parts.push(encoder.encode(
+                `--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${value.fileName.replace(/"/g, "%22")}"\r\n` +
+                `Content-Type: application/octet-stream\r\n\r\n`
+            ));
+            parts.push(new Uint8Array(value.data));
+            parts.push(encoder.encode("\r\n"));
+        }
+    }
+    parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+    const body = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        body.set(part, offset);
+        offset += part.length;
+    }
+    return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
@@ -1,17 +1,21 @@
-import { Modal, TAbstractFile, TFile, TFolder, normalizePath } from "obsidian";
+import { FrontMatterCache, Modal, TAbstractFile, TFile, TFolder, normalizePath } from "obsidian";
 
 export function sanitizeFileName(fileName: string): string {
     // Obsidian의 normalizePath로 경로를 표준화하고 불필요한 문자를 제거
     return normalizePath(fileName);
 }
 
+// Front Matter 블록 (---로 시작하고 끝나는 블록, CRLF 줄바꿈과 빈 블록 포함)
+export const FRONT_MATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---(?:\r?\n|$)/;
+
+// 본문 앞에 다시 붙일 수 있는 Front Matter 블록 (없으면 빈 문자열)
+export function getFrontMatterBlock(content: string): string {
+    const block = content.match(FRONT_MATTER_PATTERN)?.[0] ?? "";
+    return block && !block.endsWith("\n") ? `${block}\n` : block;
+}
+
 export function removeFrontMatter(content: string): string {
-    // Front Matter가 있는지 확인
-    const frontMatterMatch = content.match(/^---[\s\S]*?---\n/);
-    if (frontMatterMatch) {
-        return content.replace(frontMatterMatch[0], "").trim(); // Front Matter 제거
-    }
-    return content.trim(); // Front Matter가 없으면 그대로 반환
+    return content.replace(FRONT_MATTER_PATTERN, "").trim(); // Front Matter가 없으면 그대로 반환
 }
 
 export function extractTitleFromFilePath(filePath: string): string {
@@ -24,10 +28,27 @@ export function getFileModifiedTime(file: TFile): Date {
     return new Date(file.stat.mtime);
 }
 
-export function ensureLineBreaks(content: string): string {
-    return content.replace(/(.+)(\n|$)/g, (_, line, lineBreak) => {
-        return line.trimEnd() + "  " + lineBreak; // 각 줄 끝에 두 개의 공백 추가
-    });
+// 동기화 비교용으로 본문을 정규화 (줄바꿈, 줄 끝 공백, 앞뒤 공백)
+export function normalizeContent(content: string): string {
+    return content
+        .replace(/\r\n/g, "\n")
+        .split("\n")
+        .map((line) => line.replace(/\s+$/, ""))
+        .join("\n")
+        .trim();
+}
+
+// 제목과 본문의 해시 (FNV-1a 32bit 두 개를 이어붙인 16자리 hex)
+export function hashContent(subject: string, content: string): string {
+    const text = `${subject.trim()}\n${normalizeContent(content)}`;
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193 ^ text.length;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 0x01000193) >>> 0;
+        h2 = Math.imul(h2 ^ code, 0x5bd1e995) >>> 0;
+    }
+    return ("0000000" + h1.toString(16)).slice(-8) + ("0000000" + h2.toString(16)).slice(-8);
 }
 
 export async function readTopLevelMetadata(fileOrFolder: TAbstractFile): Promise<Record<string, string | number> | null> {
@@ -77,6 +98,31 @@ export async function deleteFolderContents(folder: TFolder): Promise<void> {
     }
 }
 
+// 비어 있는 하위 폴더를 삭제하는 함수 (폴더 자신은 남긴다)
+export async function deleteEmptyFolders(folder: TFolder): Promise<void> {
+    for (const child of [...folder.children]) {
+        if (child instanceof TFolder) {
+            await deleteEmptyFolders(child);
+            if (child.children.length === 0) {
+                await this.app.vault.delete(child);
+            }
+        }
+    }
+}
+
+// MetadataCache에 front matter가 반영될 때까지 기다리는 함수
+export async function waitForFrontMatter(file: TFile, timeout = 3000): Promise<FrontMatterCache | null> {
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < timeout) {
+        const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (frontMatter) {
+            return frontMatter;
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return null;
+}
+
 // 폴더가 없으면 생성하는 함수
 export async function ensureFolderExists(folderPath: string): Promise<void> {
     const folder = this.app.vault.getAbstractFileByPath(folderPath);
@@ -140,6 +186,122 @@ export async function showConfirmationDialog(message: string): Promise<boolean>
 }
 
 
+// 항목을 드래그해서 정렬하는 다이얼로그. 정렬된 항목을 반환하고 취소하면 null을 반환한다.
+export async function showSortDialog<T>(title: string, items: T[], getLabel: (item: T) => string): Promise<T[] | null> {
+    return new Promise((resolve) => {
+        const modal = new Modal(this.app);
+        const sorted = [...items];
+        let dragIndex = -1;
+        let resolved = false;
+
+        modal.onClose = () => {
+            if (!resolved) {
+                resolve(null);
+            }
+        };
+
+        modal.contentEl.createEl("h2", { text: title });
+        const list = modal.contentEl.createEl("ul");
+        list.classList.add("book-selection-list");
+
+        const render = () => {
+            list.empty();
+            sorted.forEach((item, index) => {
+                const listItem = list.createEl("li", { text: getLabel(item) });
+                listItem.classList.add("book-selection-list-item", "sort-list-item");
+                listItem.draggable = true;
+
+                listItem.addEventListener("dragstart", () => {
+                    dragIndex = index;
+                    listItem.classList.add("is-dragging");
+                });
+                listItem.addEventListener("dragend", () => {
+                    listItem.classList.remove("is-dragging");
+                });
+                listItem.addEventListener("dragover", (evt) => {
+                    evt.preventDefault(); // drop 허용
+                });
+                listItem.addEventListener("drop", (evt) => {
+                    evt.preventDefault();
+                    if (dragIndex < 0 || dragIndex === index) {
+                        return;
+                    }
+                    const [moved] = sorted.splice(dragIndex, 1);
+                    sorted.splice(index, 0, moved);
+                    dragIndex = -1;
+                    render();
+                });
+            });
+        };
+        render();
+
+        const buttonContainer = modal.contentEl.createEl("div");
+        buttonContainer.classList.add("dialog-button-container");
+
+        // 확인 버튼
+        const confirmButton = buttonContainer.createEl("button", { text: "확인" });
+        confirmButton.classList.add("dialog-confirm-button");
+        confirmButton.addEventListener("click", () => {
+            resolved = true;
+            modal.close();
+            resolve(sorted);
+        });
+
+        // 취소 버튼
+        const cancelButton = buttonContainer.createEl("button", { text: "취소" });
+        cancelButton.classList.add("dialog-cancel-button");
+        cancelButton.addEventListener("click", () => {
+            modal.close();
+        });
+
+        modal.open();
+    });
+}
+
+
+// metadata.md가 있는 책 폴더를 찾아서 반환
+export function findBookFolder(fileOrFolder: TAbstractFile): TFolder | null {
+    let current: TAbstractFile | null = fileOrFolder;
+    while (current && current.parent) {
+        if (current instanceof TFolder && this.app.vault.getAbstractFileByPath(`${current.path}/metadata.md`) instanceof TFile) {
+            return current;
+        }
+        current = current.parent;
+    }
+    return null;
+}
+
+// vault의 모든 책 폴더 (metadata.md가 있는 폴더)
+export function getBookFolders(): TFolder[] {
+    return this.app.vault.getMarkdownFiles()
+        .filter((file: TFile) => file.name === "metadata.md" && file.parent instanceof TFolder && file.parent.parent)
+        .map((file: TFile) => file.parent as TFolder);
+}
+
+// vault의 모든 블로그 폴더 (blog_metadata.md가 있는 폴더)
+export function getBlogFolders(): TFolder[] {
+    return this.app.vault.getMarkdownFiles()
+        .filter((file: TFile) => file.name === "blog_metadata.md" && file.parent instanceof TFolder && file.parent.parent)
+        .map((file: TFile) => file.parent as TFolder);
+}
+
+// 경로가 속한 책(metadata.md) 또는 블로그(blog_metadata.md)에 연결된 프로필 이름 (없으면 기본 프로필을 쓴다)
+// 아직 만들지 않은 파일의 경로도 받을 수 있다.
+export function getProfileName(path: string): string | null {
+    const parts = path.split("/");
+    for (let length = parts.length; length > 0; length--) {
+        const folderPath = parts.slice(0, length).join("/");
+        for (const name of ["metadata.md", "blog_metadata.md"]) {
+            const metadataFile = this.app.vault.getAbstractFileByPath(`${folderPath}/${name}`);
+            if (metadataFile instanceof TFile) {
+                const profile = this.app.metadataCache.getFileCache(metadataFile)?.frontmatter?.profile;
+                return profile ? String(profile) : null;
+            }
+        }
+    }
+    return null;
+}
+
 export async function isBookFolder(fileOrFolder: TAbstractFile): Promise<boolean> {
     let current: TAbstractFile | null = fileOrFolder;
     while (current && current.parent) {
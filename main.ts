@@ -1,60 +1,196 @@
-import { App, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder } from "obsidian";
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, FuzzySuggestModal, ItemView, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, WorkspaceLeaf, setIcon } from "obsidian";
 
 import {
-	deleteFolderContents,
+	deleteEmptyFolders,
+	ensureFolderExists,
 	extractEmbeddedImages,
 	extractTitleFromFilePath,
-	getFileModifiedTime,
+	findBookFolder,
+	getBookFolders,
+	getFrontMatterBlock,
+	getProfileName,
+	hashContent,
 	isBlogFolder,
 	isBookFolder,
 	removeFrontMatter,
 	sanitizeFileName,
-	showConfirmationDialog
+	showConfirmationDialog,
+	showSortDialog,
+	waitForFrontMatter
 } from "./lib/utils";
 
 import {
+	DEFAULT_API_BASE_URL,
 	DEFAULT_SETTINGS,
+	LegacySettings,
 	WikiDocsPluginSettings,
 } from "./lib/config";
 
 import {
 	ApiClient,
+	BlogListItem,
+	BlogProfile,
+	PageRevision,
 } from "./lib/api";
 
+import {
+	BasePage,
+	readBasePages,
+	removeBaseContent,
+	saveBaseContent,
+	setPluginDir,
+	updateBasePages,
+} from "./lib/base";
+
 import {
 	addBlogFrontMatterToFile,
 	addBlogIconToFile,
 	addBlogIconToFolder,
 	addFrontMatterToFile,
-	addLockIconToFile,
-	BlogMetadata,
+	BlogPost,
+	ConflictResolution,
+	extractBookMetadata,
 	extractMetadataFromBlogFrontMatter,
-	extractMetadataFromFrontMatter,
+	findServerPage,
+	getBlogMarkdown,
+	getBlogPostChange,
+	getBlogPostFiles,
 	getBookIdFromMetadata,
+	countChangedPages,
+	getBookPageFiles,
+	getPageChange,
+	getPageMetadata,
+	getPageSubtree,
 	getPureContent,
+	getServerVersion,
+	getSiblingPages,
 	isNeedSync,
+	isPageChanged,
+	mergeFrontMatter,
+	parseBlogTags,
+	parseOpenYn,
+	mergePagesToMarkdown,
+	PageChange,
+	PageChangeKind,
+	PageMetadata,
+	pullPage,
 	saveBlogToMarkdown,
-	savePagesToMarkdown
+	saveBookMetadata,
+	saveBookPages,
+	ServerBook,
+	ServerPage,
+	toBasePages,
+	updatePageOrder
 } from "./lib/md";
 
+import {
+	hasConflictMarkers,
+	unifiedDiff,
+} from "./lib/merge";
+
+import {
+	localizeImages,
+	replaceImageEmbeds,
+} from "./lib/images";
+
+import {
+	pageLinksToWikiLinks,
+	wikiLinksToPageLinks,
+} from "./lib/links";
+
+import {
+	getErrorMessage,
+	WikiDocsNotFoundError,
+} from "./lib/errors";
+
+import {
+	CONVERSION_RULES,
+	convertToLocal,
+	convertToServer,
+} from "./lib/convert";
+
+import {
+	resolvePage,
+	SyncedPage,
+	SyncIndex,
+} from "./lib/sync-index";
+
+import {
+	isOwnWrite,
+	SyncLock,
+	trackWrite,
+} from "./lib/sync-lock";
+
+import {
+	ExplorerBadge,
+	ExplorerItem,
+	getExplorerBlogs,
+	getExplorerBooks,
+} from "./lib/explorer";
+
+const VIEW_TYPE_EXPLORER = "wikidocs-explorer";
+
+// 자동 동기화는 확인 창을 띄우지 않고, 성공 알림 대신 상태 표시줄에 결과를 표시한다.
+interface SyncOptions {
+	auto?: boolean;
+	files?: TFile[]; // 이 페이지만 보낸다. (탐색기 패널의 페이지 보내기)
+}
+
+// 파일 탐색기에서 끌고 있는 항목 (Obsidian 공개 API에 없는 app.dragManager)
+interface DragManagerApp extends App {
+	dragManager?: {
+		draggable?: { file?: TAbstractFile } | null;
+	};
+}
+
+// 블로그 전체 내려받기 조건
+interface BlogArchiveFilter {
+	visibility: "all" | "public" | "private";
+	from: string; // 작성일 범위 (YYYY-MM-DD, 빈 값이면 제한 없음)
+	to: string;
+}
+
 export default class WikiDocsPlugin extends Plugin {
 	settings: WikiDocsPluginSettings;
 	apiClient: ApiClient;
+	syncIndex: SyncIndex;
+	syncLock = new SyncLock();
+	statusBarEl: HTMLElement;
+	lastSyncedAt: Date | null = null; // 마지막으로 동기화에 성공한 시간
+	lastSyncError: string | null = null; // 마지막 동기화 오류
+	private autoSyncTimer: number | null = null;
+	private pushTimers = new Map<string, number>(); // 책 폴더별 자동 보내기 타이머
+	private blogTagCache = new Map<string, Promise<string[]>>(); // 프로필별 서버 블로그 태그
+	private statusBarTimer: number | null = null;
 
 	async onload() {
 		await this.loadSettings();
+		if (this.manifest.dir) {
+			setPluginDir(this.manifest.dir);
+		}
 		this.apiClient = new ApiClient(this.settings);
-		let isSyncProcess = false;
+		this.syncIndex = new SyncIndex(this.settings.syncIndex);
 		let layout_ready = false;
 
+		// 위키독스 탐색기 패널
+		this.registerView(VIEW_TYPE_EXPLORER, (leaf) => new WikiDocsExplorerView(leaf, this));
+		this.addRibbonIcon("list-tree", "위키독스 탐색기 열기", () => this.activateExplorer());
+		this.addCommand({
+			id: "open-explorer",
+			name: "위키독스 탐색기 열기",
+			callback: () => this.activateExplorer(),
+		});
+
+		// 블로그 태그 자동 완성
+		this.registerEditorSuggest(new BlogTagSuggest(this));
+
 		// 툴바에 아이콘 추가
         this.addRibbonIcon("book", "위키독스 책 목록 가져오기", async (evt: MouseEvent) => {
             // 책 목록 가져오기 명령 실행
-            const bookId = await this.promptForBookSelection();
-            if (bookId) {
-				isSyncProcess = true;
-				await this.apiClient.downloadBook(this.app, bookId);
-				isSyncProcess = false;
+            const profile = await this.promptForProfile();
+            const bookId = profile ? await this.promptForBookSelection(profile) : null;
+            if (profile && bookId) {
+				await this.downloadBook(bookId, profile);
             }
         });
 
@@ -74,11 +210,10 @@ export default class WikiDocsPlugin extends Plugin {
 			id: "fetch-selected-book",
 			name: "위키독스 책 목록 가져오기",
 			callback: async () => {
-				const bookId = await this.promptForBookSelection();
-				if (bookId) {
-					isSyncProcess = true;
-					await this.apiClient.downloadBook(this.app, bookId);
-					isSyncProcess = false;
+				const profile = await this.promptForProfile();
+				const bookId = profile ? await this.promptForBookSelection(profile) : null;
+				if (profile && bookId) {
+					await this.downloadBook(bookId, profile);
 				}
 			},
 		});
@@ -98,59 +233,144 @@ export default class WikiDocsPlugin extends Plugin {
 							item.setTitle("위키독스 내려받기")
 								.setIcon("cloud-download")
 								.onClick(async () => {
-									const is_need_sync = await isNeedSync(this.app, file)
-									if (is_need_sync) {
-										const confirmed = await showConfirmationDialog(
-											"[주의!!] 변경된 페이지가 있습니다. \n" +
-											"변경된 페이지를 먼저 '위키독스 보내기'로 전송해 주세요.\n" +
-											"무시하고 내려받으시겠습니까?"
-										);
-										if (confirmed) {
-											isSyncProcess = true;
-											await this.syncFromServer(file);
-											isSyncProcess = false;
-										}
-									}else {
-										isSyncProcess = true;
-										await this.syncFromServer(file);
-										isSyncProcess = false;
-									}
+									await this.downloadBookFolder(file);
 								});
 						});
 			
+						// 책 설정 (metadata.md는 파일 탐색기에서 숨겨져 있다)
+						menu.addItem((item) => {
+							item.setTitle("위키독스 책 설정")
+								.setIcon("settings")
+								.onClick(async () => {
+									await this.app.workspace.getLeaf(false).openFile(metadataFile);
+								});
+						});
+
 						// 위키독스로 보내기
 						menu.addItem((item) => {
 							item.setTitle("위키독스 보내기")
 								.setIcon("cloud-upload")
 								.onClick(async () => {
-									isSyncProcess = true;
-									await this.syncToServer(file);
-									isSyncProcess = false;
+									await this.runSync(() => this.syncToServer(file));
 								});
 						});
 					}
 				}
 
+				// 일반 폴더로 새 책 만들기
+				if (
+					file instanceof TFolder && file.parent && !findBookFolder(file) &&
+					!(this.app.vault.getAbstractFileByPath(`${file.path}/blog_metadata.md`) instanceof TFile)
+				) {
+					menu.addItem((item) => {
+						item.setTitle("위키독스 새 책으로 만들기")
+							.setIcon("book-plus")
+							.onClick(async () => {
+								const confirmed = await showConfirmationDialog(
+									`"${file.name}" 폴더로 위키독스에 새 책을 만듭니다.\n` +
+									"폴더 안의 노트가 모두 페이지로 업로드됩니다. 계속하시겠습니까?"
+								);
+								const profile = confirmed ? await this.promptForProfile() : null;
+								if (profile) {
+									await this.runSync(() => this.createBookFromFolder(file, profile));
+								}
+							});
+					});
+				}
+
+				// 페이지 이동
+				if (file instanceof TFile && file.extension === "md" && file.name !== "metadata.md" && findBookFolder(file)) {
+					menu.addItem((item) => {
+						item.setTitle("위키독스 페이지 이동…")
+							.setIcon("folder-tree")
+							.onClick(() => this.promptForPageMove(file));
+					});
+				}
+
+				// 공개 여부 변경 (하위 페이지가 있으면 하위 페이지까지 한 번에)
+				if (file instanceof TFile && file.extension === "md" && file.name !== "metadata.md" && findBookFolder(file)) {
+					const openYn = parseOpenYn(this.app.metadataCache.getFileCache(file)?.frontmatter?.open_yn) === "N" ? "Y" : "N";
+					const label = openYn === "Y" ? "공개" : "비공개";
+					menu.addItem((item) => {
+						item.setTitle(`위키독스 페이지 ${label}로 바꾸기`)
+							.setIcon(openYn === "Y" ? "unlock" : "lock")
+							.onClick(() => this.setPageVisibility([file], openYn));
+					});
+					const subtree = getPageSubtree(file);
+					if (subtree.length > 1) {
+						menu.addItem((item) => {
+							item.setTitle(`하위 페이지까지 ${label}로 바꾸기`)
+								.setIcon(openYn === "Y" ? "unlock" : "lock")
+								.onClick(() => this.setPageVisibility(subtree, openYn));
+						});
+					}
+				}
+
+				// 페이지 기록
+				if (file instanceof TFile && file.extension === "md" && file.name !== "metadata.md" && findBookFolder(file)) {
+					menu.addItem((item) => {
+						item.setTitle("위키독스 페이지 기록")
+							.setIcon("history")
+							.onClick(() => this.showPageHistory(file));
+					});
+				}
+
+				// 페이지 순서 변경 (책 폴더 및 하위 페이지 폴더)
+				if (file instanceof TFolder && findBookFolder(file)) {
+					menu.addItem((item) => {
+						item.setTitle("위키독스 페이지 순서 변경")
+							.setIcon("list-ordered")
+							.onClick(async () => {
+								const pages = await showSortDialog("페이지 순서를 변경해 주세요.", getSiblingPages(file, this.syncIndex), (page) => page.basename);
+								if (pages) {
+									await updatePageOrder(pages, this.syncIndex);
+									await this.saveSettings();
+									new Notice("페이지 순서를 변경했습니다. '위키독스 보내기'로 전송해 주세요.");
+								}
+							});
+					});
+				}
+
 				// blog
 				if (file instanceof TFolder) {
 					const metadataFilePath = `${file.path}/blog_metadata.md`;
             		const metadataFile = this.app.vault.getAbstractFileByPath(metadataFilePath);
 					if (metadataFile instanceof TFile) {
+						// 새 글과 수정된 글을 모두 보내기
+						menu.addItem((item) => {
+							item.setTitle("블로그 전체 보내기")
+								.setIcon("cloud-upload")
+								.onClick(async () => {
+									await this.runSync(() => this.syncBlogToServer(file));
+								});
+						});
+
+						// 블로그 글을 모두 내려받기
+						menu.addItem((item) => {
+							item.setTitle("블로그 전체 내려받기")
+								.setIcon("cloud-download")
+								.onClick(async () => {
+									await this.downloadBlogFolder(file);
+								});
+						});
+
 						// 위키독스로부터 내려받기
 						menu.addItem((item) => {
 							item.setTitle("블로그 목록조회")
 								.setIcon("cloud-download")
 								.onClick(async () => {
-									const blog_id = await this.promptForBlogListSelection();
+									const blog_id = await this.promptForBlogListSelection(file);
 									if (blog_id == null) {
 										return null;
 									}
-									const response = await this.apiClient.fetchWithAuth(`/blog/${blog_id}`);
-									if (!response.ok) {
-										new Notice("블로그를 가져오지 못했습니다.");
+									let blog;
+									try {
+										blog = await this.clientFor(file).requestJson<BlogPost>(`/blog/${blog_id}`);
+									} catch (error) {
+										console.error(`Failed to fetch blog ${blog_id}`, error);
+										new Notice(getErrorMessage(error, "블로그를 가져오지 못했습니다."));
 										return null;
 									}
-									const blog = await response.json();
 
 									// 파일 쓰기
 									if(file.parent instanceof TFolder) {
@@ -198,9 +418,44 @@ export default class WikiDocsPlugin extends Plugin {
 			})
 		);
 		
+		// 상태 표시줄 (보내지 않은 변경, 마지막 동기화 시간, 오류)
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.classList.add("mod-clickable");
+		this.statusBarEl.setAttr("data-tooltip-position", "top");
+		this.registerDomEvent(this.statusBarEl, "click", () => {
+			new Notice(this.statusBarEl.getAttribute("aria-label") ?? "");
+		});
+
 		this.app.workspace.onLayoutReady(() => {
 			layout_ready = true;
+			this.updateStatusBar();
+			this.updateExplorerViews();
+			this.startAutoSync();
 		});
+
+		// 자동 동기화를 켠 책은 편집이 멈추면 보낸다.
+		const onFileChanged = async (file: TAbstractFile) => {
+			// 동기화가 쓴 파일은 다시 보내지 않는다.
+			if (!layout_ready || isOwnWrite(file.path)) {
+				return;
+			}
+			this.refreshStatusBar();
+
+			const bookFolder = findBookFolder(file);
+			if (bookFolder && await this.isAutoSyncBook(bookFolder)) {
+				this.schedulePush(bookFolder);
+			}
+		};
+		this.registerEvent(this.app.vault.on("modify", onFileChanged));
+		this.registerEvent(this.app.vault.on("create", onFileChanged));
+		this.registerEvent(this.app.vault.on("delete", onFileChanged));
+		this.registerEvent(this.app.vault.on("rename", onFileChanged));
+		// 탐색기 배지(공개 여부 등)는 front matter를 읽으므로 메타데이터 캐시가 갱신된 뒤에 다시 그린다.
+		this.registerEvent(this.app.metadataCache.on("changed", () => {
+			if (layout_ready) {
+				this.refreshStatusBar();
+			}
+		}));
 		
 		this.registerEvent(
 			this.app.vault.on("create", async (file) => {
@@ -208,7 +463,7 @@ export default class WikiDocsPlugin extends Plugin {
 					return;
 				}
 
-				if(isSyncProcess) {
+				if(isOwnWrite(file.path)) {
 					return;
 				}
 
@@ -229,11 +484,21 @@ export default class WikiDocsPlugin extends Plugin {
 						}
 						await new Promise(resolve => setTimeout(resolve, 100));
 
-						let metadata;
-						if (await isBookFolder(file)) {
-							metadata = await extractMetadataFromFrontMatter(file);
+						// 책 페이지: front matter의 id가 동기화 인덱스에서 다른 파일의 페이지이면 복제한 파일이므로 신규 페이지로
+						const bookFolder = findBookFolder(file);
+						const bookId = bookFolder ? await getBookIdFromMetadata(bookFolder.path) : null;
+						if (bookId) {
+							const frontMatterId = Number(this.app.metadataCache.getFileCache(file)?.frontmatter?.id);
+							if (frontMatterId > 0 && !resolvePage(this.syncIndex, bookId, file)) {
+								await this.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
+									frontMatter["id"] = -1;
+								});
+							}
+							await this.saveSettings();
+							return;
 						}
-						
+
+						let metadata;
 						if (await isBlogFolder(file)) {
 							metadata = await extractMetadataFromBlogFrontMatter(file);
 						}
@@ -245,7 +510,7 @@ export default class WikiDocsPlugin extends Plugin {
 							if (timeDifferenceInSeconds > 1) { // 파일 생성시간과 현재 시간이 1초 이상 차이날 경우 duplicate 파일임
 								metadata.id = -1; // 신규 파일로
 								metadata.last_synced = ''; // 동기화를 위해 비워둔다.
-								const frontMatter = metadata.getFrontMatter();
+								const frontMatter = metadata.getFrontMatter(content);
 								const updatedContent = frontMatter + getPureContent(content);
 								await this.app.vault.modify(file, updatedContent);
 							}
@@ -256,26 +521,58 @@ export default class WikiDocsPlugin extends Plugin {
 		);
 
 		const recentRenamedFolderPaths = new Set<string>();
+		const markFolderRenamed = (folderPath: string) => {
+			recentRenamedFolderPaths.add(folderPath);
+			setTimeout(() => {
+				recentRenamedFolderPaths.delete(folderPath)
+			}, 1000); // some reasonable timeout
+		};
 		this.registerEvent(
 			this.app.vault.on("rename", async (file, oldPath) => {
+				// 업로드된 이미지 경로 갱신
+				if (this.settings.remoteImages[oldPath]) {
+					this.settings.remoteImages[file.path] = this.settings.remoteImages[oldPath];
+					delete this.settings.remoteImages[oldPath];
+					await this.saveSettings();
+				}
+
+				// 동기화 인덱스의 페이지 경로 갱신 (폴더 이름을 바꾸면 하위 페이지 모두)
+				if (this.syncIndex.renamePath(oldPath, file.path)) {
+					await this.saveSettings();
+				}
+
+				if(isOwnWrite(file.path) || isOwnWrite(oldPath)) {
+					return;
+				}
+
 				// book
-				if(await isBookFolder(file)) {
+				const bookFolder = findBookFolder(file);
+				if(bookFolder) {
 					if (file instanceof TFolder) {
-						new Notice("폴더명 변경은 위키독스에 반영되지 않습니다.");
-						recentRenamedFolderPaths.add(file.path);
-						setTimeout(() => {
-							recentRenamedFolderPaths.delete(file.path)
-						}, 1000); // some reasonable timeout
+						if (!recentRenamedFolderPaths.has(file.path)) {
+							new Notice("폴더명 변경은 위키독스에 반영되지 않습니다.");
+						}
+						markFolderRenamed(file.path);
 					} else {
 						if (file instanceof TFile && file.parent) {
-							if (recentRenamedFolderPaths.has(file.parent.path)) {
+							if ([...recentRenamedFolderPaths].some((path) => file.path.startsWith(`${path}/`))) {
 								// after renamed folder
 								// do nothing
 								return;
 							} else {
 								// after drag-and-drop
 								if (file.extension === "md" && file.name !== "metadata.md") {
-									addFrontMatterToFile(file);
+									// 하위 페이지 폴더도 함께 이동
+									const oldFolderPath = oldPath.replace(/\.md$/, "");
+									const childFolder = this.app.vault.getAbstractFileByPath(oldFolderPath);
+									const newFolderPath = `${file.parent.path}/${file.basename}`;
+									if (childFolder instanceof TFolder && !this.app.vault.getAbstractFileByPath(newFolderPath)) {
+										markFolderRenamed(newFolderPath);
+										await this.app.vault.rename(childFolder, newFolderPath);
+									}
+
+									// 부모 페이지는 보낼 때 폴더 구조에서 구한다.
+									await deleteEmptyFolders(bookFolder);
 								}
 							}
 						}
@@ -284,25 +581,359 @@ export default class WikiDocsPlugin extends Plugin {
 			})
 		);
 
-		this.registerEvent(
-			this.app.workspace.on("file-open", async (file) => {
-				if (file instanceof TFile) {
-					if (await isBookFolder(file)) {
-						addLockIconToFile(file);
+		// 파일 탐색기에서 페이지를 다른 페이지 위로 끌어다 놓으면 하위 페이지로 이동
+		const getDropTarget = (evt: DragEvent): TFile | null => {
+			const title = (evt.target as HTMLElement | null)?.closest?.(".nav-file-title[data-path]");
+			const targetPath = title?.getAttribute("data-path");
+			const target = targetPath ? this.app.vault.getAbstractFileByPath(targetPath) : null;
+			const dragged = (this.app as DragManagerApp).dragManager?.draggable?.file;
+			if (
+				target instanceof TFile && target.extension === "md" && findBookFolder(target) &&
+				dragged instanceof TFile && dragged !== target && findBookFolder(dragged) === findBookFolder(target)
+			) {
+				return target;
+			}
+			return null;
+		};
+		this.registerDomEvent(document, "dragover", (evt: DragEvent) => {
+			if (getDropTarget(evt)) {
+				evt.preventDefault();
+			}
+		}, { capture: true });
+		this.registerDomEvent(document, "drop", async (evt: DragEvent) => {
+			const target = getDropTarget(evt);
+			if (!target) {
+				return;
+			}
+			evt.preventDefault();
+			evt.stopPropagation();
+			const dragged = (this.app as DragManagerApp).dragManager?.draggable?.file;
+			if (dragged instanceof TFile) {
+				await this.movePage(dragged, target);
+			}
+		}, { capture: true });
+
+		// 서버에 보관된 페이지 버전 보기
+		this.addCommand({
+			id: "page-history",
+			name: "위키독스 페이지 기록",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.name === "metadata.md" || !findBookFolder(file)) {
+					return false;
+				}
+				if (!checking) {
+					this.showPageHistory(file);
+				}
+				return true;
+			},
+		});
+
+		// 페이지 공개 여부 변경
+		for (const openYn of ["Y", "N"] as const) {
+			this.addCommand({
+				id: openYn === "Y" ? "make-page-public" : "make-page-private",
+				name: `위키독스 페이지 ${openYn === "Y" ? "공개" : "비공개"}로 바꾸기`,
+				checkCallback: (checking: boolean) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file || file.name === "metadata.md" || !findBookFolder(file)) {
+						return false;
+					}
+					if (!checking) {
+						this.setPageVisibility([file], openYn);
+					}
+					return true;
+				},
+			});
+			this.addCommand({
+				id: openYn === "Y" ? "make-subtree-public" : "make-subtree-private",
+				name: `위키독스 하위 페이지까지 ${openYn === "Y" ? "공개" : "비공개"}로 바꾸기`,
+				checkCallback: (checking: boolean) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file || file.name === "metadata.md" || !findBookFolder(file)) {
+						return false;
 					}
+					if (!checking) {
+						this.setPageVisibility(getPageSubtree(file), openYn);
+					}
+					return true;
+				},
+			});
+		}
+
+		// 현재 글이 있는 블로그의 글을 모두 내려받기
+		this.addCommand({
+			id: "download-blog-archive",
+			name: "위키독스 블로그 전체 내려받기",
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (!folder || !(this.app.vault.getAbstractFileByPath(`${folder.path}/blog_metadata.md`) instanceof TFile)) {
+					return false;
 				}
-			})
-		);
+				if (!checking) {
+					this.downloadBlogFolder(folder);
+				}
+				return true;
+			},
+		});
+
+		// 다른 페이지의 하위 페이지로 이동
+		this.addCommand({
+			id: "move-page-under",
+			name: "위키독스 페이지 이동…",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.name === "metadata.md" || !findBookFolder(file)) {
+					return false;
+				}
+				if (!checking) {
+					this.promptForPageMove(file);
+				}
+				return true;
+			},
+		});
 
 		// 설정 탭 추가
 		this.addSettingTab(new WikiDocsPluginSettingTab(this.app, this));
 	}
 
 	async onunload() {
+		for (const timer of this.pushTimers.values()) {
+			window.clearTimeout(timer);
+		}
+		if (this.statusBarTimer !== null) {
+			window.clearTimeout(this.statusBarTimer);
+		}
+	}
+
+	/**
+	 * 진행 중인 동기화가 끝난 뒤 task를 실행한다. 메뉴, 명령에서 실행하는 동기화는 모두 이 함수를 거친다.
+	 */
+	async runSync(task: () => Promise<void>) {
+		if (this.syncLock.isLocked) {
+			new Notice("진행 중인 동기화가 끝나면 시작합니다.");
+		}
+		const result = this.syncLock.run(task);
+		this.updateStatusBar();
+		try {
+			await result;
+		} finally {
+			this.updateStatusBar();
+			this.updateExplorerViews();
+		}
+	}
+
+	// 로컬에 보내지 않은 변경이 있으면 확인한 뒤 책 폴더를 내려받는다.
+	async downloadBookFolder(folder: TFolder) {
+		const is_need_sync = await isNeedSync(this.app, folder, this.syncIndex)
+		if (is_need_sync) {
+			const confirmed = await showConfirmationDialog(
+				"변경된 페이지가 있습니다. \n" +
+				"서버의 변경사항을 로컬 변경사항과 병합합니다. 겹치는 부분은 충돌 표시로 남습니다.\n" +
+				"내려받으시겠습니까?"
+			);
+			if (!confirmed) {
+				return;
+			}
+		}
+		await this.runSync(() => this.syncFromServer(folder));
+	}
+
+	/**
+	 * 페이지 하나의 서버 변경사항을 내려받아 로컬 변경사항과 병합한다. (탐색기 패널의 페이지 내려받기)
+	 */
+	async downloadPage(file: TFile) {
+		const bookFolder = findBookFolder(file);
+		const bookId = bookFolder ? await getBookIdFromMetadata(bookFolder.path) : null;
+		const page = bookId ? resolvePage(this.syncIndex, bookId, file) : null;
+		if (!bookId || !page) {
+			new Notice("아직 위키독스에 보내지 않은 페이지입니다.");
+			return;
+		}
+
+		try {
+			const bookData = await this.clientFor(file).requestJson<ServerBook>(`/books/${bookId}/`);
+			const serverPage = findServerPage(bookData.pages, page.id);
+			if (!serverPage) {
+				new Notice(`${file.basename} 페이지가 위키독스에 없습니다.`);
+				return;
+			}
+			const result = await pullPage(
+				file,
+				serverPage,
+				bookId,
+				this.syncIndex,
+				false,
+				(content, filePath) => this.toLocalContent(content, filePath, bookId)
+			);
+			await this.saveSettings();
+			this.recordSyncResult(null);
+
+			if (result.conflicts > 0) {
+				new Notice(`${file.basename} 페이지에 충돌이 발생했습니다. 확인해 주세요.`);
+			} else {
+				new Notice(`${file.basename} 페이지를 내려받았습니다.`);
+			}
+		} catch (error) {
+			console.error(`Failed to download page: ${file.path}`, error);
+			new Notice(getErrorMessage(error, `${file.basename} 페이지를 내려받지 못했습니다.`));
+			this.recordSyncResult(getErrorMessage(error, `${file.basename} 페이지를 내려받지 못했습니다.`));
+		}
+	}
+
+	async downloadBook(bookId: number, profile: string) {
+		await this.runSync(async () => {
+			try {
+				await this.apiClient.withProfile(profile).downloadBook(this.app, bookId, this.syncIndex, (content, filePath) => this.toLocalContent(content, filePath, bookId));
+				this.recordSyncResult(null);
+			} catch (error) {
+				console.error(`Failed to download book ${bookId}`, error);
+				new Notice(getErrorMessage(error, "책 내려받기가 실패했습니다."));
+				this.recordSyncResult(getErrorMessage(error, "책 내려받기가 실패했습니다."));
+			} finally {
+				await this.saveSettings();
+			}
+		});
+	}
+
+	// 동기화 결과를 기록한다. (error가 null이면 성공)
+	recordSyncResult(error: string | null) {
+		if (error) {
+			this.lastSyncError = error;
+		} else {
+			this.lastSyncedAt = new Date();
+			this.lastSyncError = null;
+		}
+	}
+
+	/**
+	 * 자동 동기화를 (다시) 시작한다. 자동 동기화를 켠 책을 설정한 주기마다 내려받는다.
+	 */
+	startAutoSync() {
+		if (this.autoSyncTimer !== null) {
+			window.clearInterval(this.autoSyncTimer);
+			this.autoSyncTimer = null;
+		}
+		if (this.settings.autoSyncBooks.length === 0) {
+			return;
+		}
+
+		this.autoSyncTimer = window.setInterval(() => this.autoPull(), this.settings.autoSyncInterval * 60 * 1000);
+		this.registerInterval(this.autoSyncTimer);
+	}
+
+	async isAutoSyncBook(folder: TFolder): Promise<boolean> {
+		const bookId = await getBookIdFromMetadata(folder.path);
+		return !!bookId && this.settings.autoSyncBooks.includes(bookId);
+	}
+
+	// 다른 동기화가 실행 중이면 이번 주기는 건너뛴다.
+	async autoPull() {
+		for (const folder of getBookFolders()) {
+			if (!(await this.isAutoSyncBook(folder))) {
+				continue;
+			}
+			await this.syncLock.tryRun(async () => {
+				this.updateStatusBar();
+				// 로컬에서 삭제한 페이지가 다시 만들어지지 않도록 삭제 대기열에 먼저 넣는다.
+				await this.reviewDeletedPages(folder, false);
+				await this.syncFromServer(folder, {}, { auto: true });
+			});
+		}
+		this.updateStatusBar();
+		this.updateExplorerViews();
+	}
+
+	// 마지막 편집 후 autoPushDelay초 동안 변경이 없으면 보낸다.
+	schedulePush(folder: TFolder) {
+		const timer = this.pushTimers.get(folder.path);
+		if (timer !== undefined) {
+			window.clearTimeout(timer);
+		}
+		this.pushTimers.set(folder.path, window.setTimeout(async () => {
+			this.pushTimers.delete(folder.path);
+			const pushed = await this.syncLock.tryRun(async () => {
+				this.updateStatusBar();
+				await this.syncToServer(folder, { auto: true });
+				return true;
+			});
+			if (!pushed) {
+				this.schedulePush(folder); // 다른 동기화가 끝난 뒤 다시 시도
+			}
+			this.updateStatusBar();
+			this.updateExplorerViews();
+		}, this.settings.autoPushDelay * 1000));
+	}
+
+	// 편집이 이어지는 동안에는 상태 표시줄과 탐색기 패널을 한 번만 갱신한다.
+	refreshStatusBar() {
+		if (this.statusBarTimer !== null) {
+			window.clearTimeout(this.statusBarTimer);
+		}
+		this.statusBarTimer = window.setTimeout(() => {
+			this.statusBarTimer = null;
+			this.updateStatusBar();
+			this.updateExplorerViews();
+		}, 1000);
+	}
+
+	async activateExplorer() {
+		let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(VIEW_TYPE_EXPLORER)[0] ?? null;
+		if (!leaf) {
+			leaf = this.app.workspace.getLeftLeaf(false);
+			await leaf?.setViewState({ type: VIEW_TYPE_EXPLORER, active: true });
+		}
+		if (leaf) {
+			this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	updateExplorerViews() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_EXPLORER)) {
+			if (leaf.view instanceof WikiDocsExplorerView) {
+				leaf.view.render();
+			}
+		}
+	}
+
+	async updateStatusBar() {
+		const bookFolders = getBookFolders();
+		this.statusBarEl.toggle(bookFolders.length > 0);
+		if (bookFolders.length === 0) {
+			return;
+		}
+
+		if (this.syncLock.isLocked) {
+			this.statusBarEl.setText("위키독스: 동기화 중…");
+			this.statusBarEl.setAttr("aria-label", "위키독스와 동기화하고 있습니다.");
+			return;
+		}
+
+		let pending = 0;
+		for (const folder of bookFolders) {
+			pending += await countChangedPages(folder, this.syncIndex);
+		}
+
+		const lastSynced = this.lastSyncedAt
+			? this.lastSyncedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+			: null;
+		const details = [
+			pending > 0 ? `보내지 않은 페이지 ${pending}개` : "보내지 않은 변경이 없습니다.",
+			lastSynced ? `마지막 동기화: ${lastSynced}` : "",
+			this.lastSyncError ?? "",
+		].filter((line) => line).join("\n");
+
+		let text = this.lastSyncError ? "위키독스: ⚠️ 오류" : pending > 0 ? `위키독스: 변경 ${pending}개` : "위키독스: 최신";
+		if (lastSynced) {
+			text += ` · ${lastSynced}`;
+		}
+		this.statusBarEl.setText(text);
+		this.statusBarEl.setAttr("aria-label", details);
 	}
 
-	async syncFromServer(folder: TFolder) {
+	async syncFromServer(folder: TFolder, sentContents: Record<number, string> = {}, options: SyncOptions = {}) {
 		const folderName = folder.name;
+		const apiClient = this.clientFor(folder);
 	
 		try {
 			const bookId = await getBookIdFromMetadata(folder.path);
@@ -312,113 +943,1281 @@ export default class WikiDocsPlugin extends Plugin {
 			}
 	
 			// Step 1: 서버에서 책 데이터 가져오기
-			const bookResponse = await this.apiClient.fetchWithAuth(`/books/${bookId}/`);
-			if (!bookResponse.ok) {
-				new Notice("책 내려받기가 실패했습니다.");
-				return;
+			const bookData = await apiClient.requestJson<ServerBook>(`/books/${bookId}/`);
+
+			// Step 2: 책 설정 갱신 (보내지 않은 변경사항이 있으면 유지)
+			const metadataFile = this.app.vault.getAbstractFileByPath(`${folder.path}/metadata.md`);
+			if (metadataFile instanceof TFile && (await extractBookMetadata(metadataFile)).isChanged()) {
+				if (!options.auto) {
+					new Notice("변경된 책 설정이 있어서 metadata.md는 내려받지 않았습니다.");
+				}
+			} else {
+				await saveBookMetadata(folder.path, bookData, getProfileName(folder.path));
 			}
 
-			// Step 2: 책 폴더와 페이지 삭제 (동기적 흐름)
-			await deleteFolderContents(folder);
-	
-			// Step 3: 책 데이터를 새로 저장
-			const bookData = await bookResponse.json();
-			await savePagesToMarkdown(this.app, bookData.pages, folder.path);
-			new Notice(`"${bookData.subject}" 책을 성공적으로 내려받았습니다.`);
+			// Step 3: 서버 페이지를 로컬 페이지에 병합
+			await saveBookPages(bookId, bookData.pages);
+			const summary = await mergePagesToMarkdown(
+				this.app,
+				bookData.pages,
+				folder,
+				bookId,
+				this.syncIndex,
+				this.settings.deletionQueue[bookId] ?? [],
+				(content, filePath) => this.toLocalContent(content, filePath, bookId),
+				sentContents
+			);
+			await this.saveSettings();
+
+			if (summary.conflicted.length > 0) {
+				new Notice(
+					`"${bookData.subject}" 책을 내려받았습니다.\n` +
+					`충돌이 발생한 페이지 ${summary.conflicted.length}개를 확인해 주세요.\n` +
+					summary.conflicted.map((file) => `- ${file.basename}`).join("\n")
+				);
+			} else if (!options.auto) {
+				new Notice(
+					`"${bookData.subject}" 책을 성공적으로 내려받았습니다.\n` +
+					`추가 ${summary.created}, 변경 ${summary.updated}, 병합 ${summary.merged}, 삭제 ${summary.removed}`
+				);
+			}
+			this.recordSyncResult(null);
 			
 		} catch (error) {
 			console.error(`Failed to sync folder "${folderName}"`, error);
-			new Notice(`책 내려받기가 실패했습니다.`);
+			if (!options.auto) {
+				new Notice(getErrorMessage(error, "책 내려받기가 실패했습니다."));
+			}
+			this.recordSyncResult(getErrorMessage(error, `"${folderName}" 책을 내려받지 못했습니다.`));
 		}
 	}	
 	
-	async syncToServer(folder: TFolder) {
-		const folderName = folder.name;
-		const files = this.app.vault.getFiles().filter((file) => file.path.startsWith(folder.path));
+	async syncToServer(folder: TFolder, options: SyncOptions = {}) {
+		const files = options.files ?? getBookPageFiles(folder);
+		const apiClient = this.clientFor(folder);
+		const bookId = await getBookIdFromMetadata(folder.path);
+		if (!bookId) {
+			new Notice(`책의 메타데이터가 존재하지 않습니다.`);
+			return;
+		}
+
+		// 자동 동기화에서는 오류를 상태 표시줄에만 표시한다.
+		const notify = (message: string) => {
+			if (!options.auto) {
+				new Notice(message);
+			}
+		};
 	
 		let changedCount = 0;
 		let hasError = false;
+		let lastError: unknown = null;
+		const sentContents: Record<number, string> = {}; // 보낸 페이지 id별 로컬 본문
+
+		// Step 1: 보낼 페이지 찾기
+		const basePages = await readBasePages(bookId);
+		const changes: PageChange[] = [];
 		for (const file of files) {
 			try {
-				if (file.name === "metadata.md") {
-					// metadata.md 파일은 업로드하지 않음
-					continue;
-				}
-	
 				const fileContent = await this.app.vault.read(file);
-				const metadata = await extractMetadataFromFrontMatter(file);
-	
-				if (!metadata.id) {
-					console.error(`No ID found in Front Matter for file: ${file.path}`);
+				if (hasConflictMarkers(fileContent)) {
+					lastError = `${file.name} 페이지의 충돌을 먼저 해결해 주세요.`;
+					notify(lastError as string);
+					hasError = true;
 					continue;
 				}
-	
-				// parent_id가 null이거나 "null"인 경우 -1로 설정
-				if (
-					metadata.parent_id === null ||
-					(typeof metadata.parent_id === "string" && metadata.parent_id === "null")
-				) {
-					metadata.parent_id = -1;
-				}
-	
-				// 동기화 시점 확인
-				const lastSynced = metadata.last_synced ? new Date(metadata.last_synced) : null;
-				const fileModifiedAt = getFileModifiedTime(file);
-	
-				const needsSync =
-					!lastSynced || 
-					fileModifiedAt.getTime() - lastSynced.getTime() > 1000 || // 수정 시간 비교
-					sanitizeFileName(metadata.subject) !== sanitizeFileName(extractTitleFromFilePath(file.path)); // 제목 변경 감지
-	
-				if (needsSync) {
-					changedCount++;
-	
-					// const contentWithoutFrontMatter = ensureLineBreaks(removeFrontMatter(fileContent));
-					const contentWithoutFrontMatter = removeFrontMatter(fileContent);
-	
-					// 이미지 파일 처리
-					const embeddedImages = extractEmbeddedImages(file);
-					if (metadata.id != -1) { // 신규 파일이 아닌 경우에만 이미지 업로드
-						await this.apiClient.uploadImagesForPage(this.app, metadata.id, embeddedImages);
-					}
-	
-					// 서버에 업데이트
-					metadata.subject = extractTitleFromFilePath(file.path);
-					const page_id = await this.apiClient.updatePageOnServer(metadata, contentWithoutFrontMatter);
-
-					if (metadata.id == -1) { // 신규 파일인 경우에 이미지 업로드후 저장 한번 더!!
-						metadata.id = page_id;
-						await this.apiClient.uploadImagesForPage(this.app, page_id, embeddedImages);
-						await this.apiClient.updatePageOnServer(metadata, contentWithoutFrontMatter);
-					}
 
-					new Notice(`${file.name} 페이지를 성공적으로 내보냈습니다!`);
+				const metadata = getPageMetadata(file, bookId, this.syncIndex);
+				if (isPageChanged(file, metadata, fileContent, resolvePage(this.syncIndex, bookId, file))) {
+					changes.push(await getPageChange(file, metadata, fileContent, bookId, basePages));
 				}
 			} catch (error) {
 				hasError = true;
-				console.error(`Failed to sync file to server: ${file.path}`, error);
+				lastError = error;
+				console.error(`Failed to read page: ${file.path}`, error);
 			}
 		}
-	
-		if (!hasError && changedCount > 0) {
-			await this.syncFromServer(folder);
-		}else {
-			new Notice(`변경된 페이지가 없습니다.`);
+
+		// Step 2: 마지막 동기화 이후 서버에서도 바뀐 페이지 확인
+		let serverPages: ServerPage[] = [];
+		if (changes.some((change) => change.metadata.id != -1)) {
+			try {
+				serverPages = (await apiClient.requestJson<ServerBook>(`/books/${bookId}/`)).pages;
+			} catch (error) {
+				console.error(`Failed to fetch book ${bookId}`, error);
+				notify(getErrorMessage(error, "위키독스의 페이지를 확인하지 못했습니다."));
+				this.recordSyncResult(getErrorMessage(error, "위키독스의 페이지를 확인하지 못했습니다."));
+				return;
+			}
+			for (const change of changes) {
+				const syncedPage = this.syncIndex.getPage(bookId, change.metadata.id);
+				const serverPage = findServerPage(serverPages, change.metadata.id);
+				change.serverChanged = !!syncedPage?.version && !!serverPage && getServerVersion(serverPage) !== syncedPage.version;
+			}
 		}
-	}
-	
 
-	async promptForBookSelection(): Promise<number | null> {
-		const response = await this.apiClient.fetchWithAuth(`/books/`);
-		if (!response.ok) {
-			new Notice("책 목록을 가져오지 못했습니다.");
-			return null;
+		// Step 3: 미리보기에서 보낼 항목 선택
+		const metadataFile = this.app.vault.getAbstractFileByPath(`${folder.path}/metadata.md`);
+		const settingsChanged = !options.files && metadataFile instanceof TFile && (await extractBookMetadata(metadataFile)).isChanged();
+		let selectedChanges: PageChange[] = [];
+		let sendSettings = false;
+		let resolutions = new Map<PageChange, ConflictResolution>();
+		if (options.auto) {
+			// 서버에서도 바뀐 페이지는 보내지 않는다. (다음 내려받기에서 병합된다)
+			selectedChanges = changes.filter((change) => !change.serverChanged);
+			sendSettings = settingsChanged;
+		} else if (changes.length > 0 || settingsChanged) {
+			const selection = await this.promptForSyncPreview(folder, changes, settingsChanged);
+			if (!selection) {
+				return;
+			}
+			selectedChanges = selection.changes;
+			sendSettings = selection.sendSettings;
+			resolutions = selection.resolutions;
 		}
-		const books = await response.json();
-	
-		return new Promise((resolve) => {
-			const modal = new Modal(this.app);
-	
+
+		// Step 4: 서버에서도 바뀐 페이지는 서버 버전을 받거나 병합
+		for (const [change, resolution] of resolutions) {
+			const serverPage = findServerPage(serverPages, change.metadata.id);
+			if (!serverPage || (resolution !== "pull" && resolution !== "merge")) {
+				continue;
+			}
+			try {
+				await pullPage(
+					change.file,
+					serverPage,
+					bookId,
+					this.syncIndex,
+					resolution === "pull",
+					(content, filePath) => this.toLocalContent(content, filePath, bookId)
+				);
+				if (resolution === "merge") {
+					await this.app.workspace.getLeaf(true).openFile(change.file);
+				}
+			} catch (error) {
+				hasError = true;
+				lastError = error;
+				console.error(`Failed to pull page: ${change.file.path}`, error);
+				new Notice(getErrorMessage(error, `${change.file.name} 페이지의 서버 버전을 받지 못했습니다.`));
+			}
+		}
+
+		// Step 5: 선택한 항목 보내기
+		if (sendSettings) {
+			try {
+				if (await this.syncBookSettings(folder)) {
+					changedCount++;
+				}
+			} catch (error) {
+				hasError = true;
+				lastError = error;
+				console.error(`Failed to sync book settings: ${folder.path}`, error);
+				notify(getErrorMessage(error, "책 설정을 내보내지 못했습니다."));
+			}
+		}
+
+		const failedFiles: TFile[] = [];
+		for (const { file, metadata, localContent } of selectedChanges) {
+			try {
+				// 신규 페이지는 먼저 만들고 id를 바로 기록한다. (이미지는 페이지 id가 있어야 업로드할 수 있다)
+				let createdContent: string | null = null;
+				if (metadata.id == -1) {
+					createdContent = await this.toServerContent(file, localContent, {});
+					metadata.id = await apiClient.updatePageOnServer(metadata, createdContent);
+					await this.recordCreatedPage(file, bookId, metadata, localContent);
+				}
+
+				// 이미지 업로드 후 서버에 업데이트
+				const pageId = metadata.id;
+				const imageMap = await this.uploadImages(extractEmbeddedImages(file), (images) => apiClient.uploadImagesForPage(this.app, pageId, images));
+				const serverContent = await this.toServerContent(file, localContent, imageMap);
+				if (serverContent !== createdContent) {
+					await apiClient.updatePageOnServer(metadata, serverContent);
+				}
+
+				// 보낸 페이지를 동기화 인덱스에 기록한다. (신규 페이지는 이때 파일과 연결된다)
+				this.syncIndex.setPage(bookId, {
+					id: metadata.id,
+					path: file.path,
+					subject: metadata.subject,
+					parent_id: metadata.parent_id ?? -1,
+					order: metadata.order,
+					open_yn: metadata.open_yn ?? "Y",
+					hash: hashContent(metadata.subject, localContent),
+					version: this.syncIndex.getPage(bookId, metadata.id)?.version ?? "",
+					last_synced: new Date().toISOString(),
+				});
+
+				// 이어지는 내려받기에서 서버로 변환된 내용 대신 로컬 내용을 유지하도록 기록한다.
+				sentContents[metadata.id] = localContent;
+				changedCount++;
+			} catch (error) {
+				hasError = true;
+				failedFiles.push(file);
+				lastError = error;
+				console.error(`Failed to sync file to server: ${file.path}`, error);
+			}
+		}
+
+		// 보낸 페이지의 서버 버전 기록 (다음 보내기에서 서버 변경으로 오인하지 않도록)
+		if (Object.keys(sentContents).length > 0) {
+			try {
+				const bookData = await apiClient.requestJson<ServerBook>(`/books/${bookId}/`);
+				const sentPages = toBasePages(bookData.pages).filter((page) => sentContents[page.id] !== undefined);
+				await updateBasePages(bookId, sentPages);
+				for (const page of sentPages) {
+					const syncedPage = this.syncIndex.getPage(bookId, page.id);
+					const serverPage = findServerPage(bookData.pages, page.id);
+					if (syncedPage && serverPage) {
+						syncedPage.version = getServerVersion(serverPage);
+					}
+				}
+			} catch (error) {
+				console.error(`Failed to update page versions of book ${bookId}`, error);
+			}
+		}
+		await this.saveSettings();
+
+		if (failedFiles.length > 0) {
+			notify(getErrorMessage(
+				lastError,
+				`페이지 ${Object.keys(sentContents).length}개를 내보냈지만 ${failedFiles.length}개는 내보내지 못했습니다.\n` +
+				failedFiles.map((file) => `- ${file.basename}`).join("\n")
+			));
+		} else if (selectedChanges.length > 0) {
+			notify(`페이지 ${selectedChanges.length}개를 내보냈습니다.`);
+		}
+	
+		// 로컬에서 삭제된 페이지 확인 (자동 동기화는 삭제 대기열에만 넣는다, 페이지만 보낼 때는 확인하지 않는다)
+		const review = options.files
+			? { deleted: 0, restored: 0, pending: 0 }
+			: await this.reviewDeletedPages(folder, !options.auto);
+	
+		if (hasError) {
+			this.recordSyncResult(getErrorMessage(lastError, `"${folder.name}" 책의 일부 항목을 보내지 못했습니다.`));
+		} else if (changedCount > 0 || review.deleted > 0 || review.restored > 0) {
+			await this.syncFromServer(folder, sentContents, options);
+		} else {
+			this.recordSyncResult(null);
+			if (changes.length === 0 && !settingsChanged && !review.pending) {
+				notify(`변경된 페이지가 없습니다.`);
+			}
+		}
+	}
+
+	/**
+	 * 보낼 페이지의 변경 내용을 보여주고, 사용자가 선택한 페이지만 반환한다.
+	 */
+	async promptForSyncPreview(folder: TFolder, changes: PageChange[], settingsChanged: boolean):
+			Promise<{ changes: PageChange[]; sendSettings: boolean; resolutions: Map<PageChange, ConflictResolution> } | null> {
+		const kindLabels: Record<PageChangeKind, string> = {
+			new: "신규",
+			modified: "수정",
+			renamed: "이름 변경",
+			moved: "이동",
+		};
+
+		const resolutionLabels: Record<ConflictResolution, string> = {
+			skip: "보내지 않음",
+			overwrite: "서버 버전 덮어쓰기",
+			pull: "서버 버전 받기 (로컬 변경 버림)",
+			merge: "병합해서 열기",
+		};
+
+		return new Promise((resolve) => {
+			const modal = new Modal(this.app);
+			// 서버에서도 바뀐 페이지는 처리 방법을 고를 때까지 보내지 않는다.
+			const selected = new Set(changes.filter((change) => !change.serverChanged));
+			const resolutions = new Map<PageChange, ConflictResolution>();
+			let sendSettings = settingsChanged;
+			let resolved = false;
+
+			modal.onClose = () => {
+				if (!resolved) {
+					resolve(null);
+				}
+			};
+
+			// 헤더
+			const header = modal.contentEl.createEl("h2", {
+				text: `"${folder.name}" 책 보내기`,
+			});
+			header.classList.add("book-selection-header");
+			modal.contentEl.createEl("p", {
+				text: "위키독스로 보낼 페이지를 선택해 주세요. 변경 내용은 마지막으로 동기화한 내용과 비교한 것입니다.",
+			});
+
+			const list = modal.contentEl.createEl("ul");
+			list.classList.add("book-selection-list");
+
+			if (settingsChanged) {
+				const listItem = list.createEl("li");
+				listItem.classList.add("sync-preview-item");
+				const label = listItem.createEl("label");
+				const checkbox = label.createEl("input", { type: "checkbox" });
+				checkbox.checked = sendSettings;
+				checkbox.addEventListener("change", () => {
+					sendSettings = checkbox.checked;
+				});
+				label.appendText(" 책 설정 (metadata.md)");
+			}
+
+			for (const change of changes) {
+				const listItem = list.createEl("li");
+				listItem.classList.add("sync-preview-item");
+
+				const label = listItem.createEl("label");
+				if (!change.serverChanged) {
+					const checkbox = label.createEl("input", { type: "checkbox" });
+					checkbox.checked = true;
+					checkbox.addEventListener("change", () => {
+						if (checkbox.checked) {
+							selected.add(change);
+						} else {
+							selected.delete(change);
+						}
+					});
+				}
+				label.appendText(` ${change.file.path.substring(folder.path.length + 1)}`);
+				for (const kind of change.kinds) {
+					const badge = label.createEl("span", { text: kindLabels[kind] });
+					badge.classList.add("sync-preview-badge", `sync-preview-${kind}`);
+				}
+
+				// 마지막 동기화 이후 서버에서도 바뀐 페이지
+				if (change.serverChanged) {
+					const badge = label.createEl("span", { text: "서버에서 변경됨" });
+					badge.classList.add("sync-preview-badge", "sync-preview-conflict");
+
+					const select = listItem.createEl("select");
+					select.classList.add("dropdown", "sync-preview-resolution");
+					for (const [value, text] of Object.entries(resolutionLabels)) {
+						select.createEl("option", { value, text });
+					}
+					select.addEventListener("change", () => {
+						const resolution = select.value as ConflictResolution;
+						resolutions.set(change, resolution);
+						if (resolution === "overwrite") {
+							selected.add(change);
+						} else {
+							selected.delete(change);
+						}
+					});
+				}
+
+				// 변경 내용 (펼쳐서 보기)
+				if (change.baseContent === change.localContent) {
+					continue;
+				}
+				const details = listItem.createEl("details");
+				details.createEl("summary", { text: "변경 내용 보기" });
+				const diffEl = details.createEl("div");
+				diffEl.classList.add("sync-preview-diff");
+				this.renderDiff(diffEl, change.baseContent, change.localContent);
+			}
+
+			const buttonContainer = modal.contentEl.createEl("div");
+			buttonContainer.classList.add("dialog-button-container");
+
+			const confirmButton = buttonContainer.createEl("button", { text: "선택한 항목 보내기" });
+			confirmButton.classList.add("dialog-confirm-button", "mod-cta");
+			confirmButton.addEventListener("click", () => {
+				resolved = true;
+				modal.close();
+				resolve({
+					changes: changes.filter((change) => selected.has(change)),
+					sendSettings,
+					resolutions,
+				});
+			});
+
+			const cancelButton = buttonContainer.createEl("button", { text: "취소" });
+			cancelButton.classList.add("dialog-cancel-button");
+			cancelButton.addEventListener("click", () => modal.close());
+
+			modal.open();
+		});
+	}
+
+	// base와 other의 차이를 diff 형식으로 표시한다.
+	renderDiff(diffEl: HTMLElement, base: string, other: string) {
+		const chunks = unifiedDiff(base, other);
+		if (chunks.length === 0) {
+			diffEl.createEl("div", { text: "차이가 없습니다." }).classList.add("sync-preview-diff-separator");
+		}
+		for (const [index, chunk] of chunks.entries()) {
+			if (index > 0) {
+				diffEl.createEl("div", { text: "⋯" }).classList.add("sync-preview-diff-separator");
+			}
+			for (const line of chunk) {
+				const prefix = line.type === "added" ? "+" : line.type === "removed" ? "-" : " ";
+				diffEl.createEl("div", { text: `${prefix} ${line.text}` }).classList.add(`sync-preview-diff-${line.type}`);
+			}
+		}
+	}
+
+	/**
+	 * 서버에 보관된 페이지의 버전을 보여준다. 두 버전(또는 로컬 파일)을 비교하고, 선택한 버전을 로컬이나 서버에 복원한다.
+	 * 로컬 파일은 보낼 때와 같은 위키독스 형식으로 바꿔서 비교한다.
+	 */
+	async showPageHistory(file: TFile) {
+		const bookFolder = findBookFolder(file);
+		const bookId = bookFolder ? await getBookIdFromMetadata(bookFolder.path) : null;
+		const page = bookId ? resolvePage(this.syncIndex, bookId, file) : null;
+		if (!bookId || !page) {
+			new Notice("아직 위키독스에 보내지 않은 페이지입니다.");
+			return;
+		}
+
+		const apiClient = this.clientFor(file);
+		let revisions: PageRevision[];
+		try {
+			revisions = await apiClient.getPageHistory(page.id);
+		} catch (error) {
+			console.error(`Failed to fetch page history: ${file.path}`, error);
+			new Notice(getErrorMessage(error, "페이지 기록을 가져오지 못했습니다."));
+			return;
+		}
+		if (revisions.length === 0) {
+			new Notice("페이지 기록이 없습니다.");
+			return;
+		}
+
+		// 버전 본문은 비교하거나 복원할 때 가져온다. (-1은 로컬 파일)
+		const LOCAL_FILE = -1;
+		const contents = new Map<number, string>();
+		const getContent = async (revisionId: number): Promise<string> => {
+			if (revisionId === LOCAL_FILE) {
+				const imageMap: Record<string, string> = {};
+				for (const image of extractEmbeddedImages(file)) {
+					const remoteImage = this.settings.remoteImages[image.path];
+					if (remoteImage) {
+						imageMap[image.path] = remoteImage.url;
+					}
+				}
+				return await this.toServerContent(file, getPureContent(await this.app.vault.read(file)), imageMap);
+			}
+			if (!contents.has(revisionId)) {
+				const revision = await apiClient.getPageRevision(page.id, revisionId);
+				contents.set(revisionId, revision.content ?? "");
+			}
+			return contents.get(revisionId) ?? "";
+		};
+		const getLabel = (revision: PageRevision) =>
+			`#${revision.id} · ${revision.author || "알 수 없음"} · ${new Date(revision.created_at).toLocaleString()}`;
+
+		const modal = new Modal(this.app);
+
+		// 헤더
+		const header = modal.contentEl.createEl("h2", {
+			text: `"${file.basename}" 페이지 기록`,
+		});
+		header.classList.add("book-selection-header");
+
+		// 비교할 두 버전 선택
+		const compareEl = modal.contentEl.createEl("div");
+		compareEl.classList.add("page-history-compare");
+		const createSelect = (label: string, value: number) => {
+			compareEl.createEl("span", { text: label });
+			const select = compareEl.createEl("select");
+			select.classList.add("dropdown");
+			select.createEl("option", { value: String(LOCAL_FILE), text: "로컬 파일" });
+			for (const revision of revisions) {
+				select.createEl("option", { value: String(revision.id), text: getLabel(revision) });
+			}
+			select.value = String(value);
+			return select;
+		};
+		const baseSelect = createSelect("비교 기준", revisions[0].id);
+		const otherSelect = createSelect("비교 대상", LOCAL_FILE);
+
+		const diffEl = modal.contentEl.createEl("div");
+		diffEl.classList.add("sync-preview-diff");
+		let diffId = 0;
+		const updateDiff = async () => {
+			// 버전을 가져오는 동안 선택이 바뀌면 마지막 선택만 표시한다.
+			const currentId = ++diffId;
+			diffEl.empty();
+			diffEl.createEl("div", { text: "불러오는 중…" }).classList.add("sync-preview-diff-separator");
+			try {
+				const base = await getContent(Number(baseSelect.value));
+				const other = await getContent(Number(otherSelect.value));
+				if (currentId === diffId) {
+					diffEl.empty();
+					this.renderDiff(diffEl, base, other);
+				}
+			} catch (error) {
+				console.error(`Failed to fetch page revision: ${file.path}`, error);
+				if (currentId === diffId) {
+					diffEl.empty();
+					diffEl.createEl("div", { text: getErrorMessage(error, "버전을 가져오지 못했습니다.") });
+				}
+			}
+		};
+		baseSelect.addEventListener("change", updateDiff);
+		otherSelect.addEventListener("change", updateDiff);
+		updateDiff();
+
+		// 버전 목록과 복원
+		const list = modal.contentEl.createEl("ul");
+		list.classList.add("book-selection-list");
+		for (const revision of revisions) {
+			const listItem = list.createEl("li");
+			listItem.classList.add("sync-preview-item", "page-history-item");
+			listItem.createEl("span", { text: getLabel(revision) });
+
+			const localButton = listItem.createEl("button", { text: "로컬에 복원" });
+			localButton.addEventListener("click", async () => {
+				const confirmed = await showConfirmationDialog(
+					`로컬 파일의 내용을 #${revision.id} 버전으로 바꿉니다.\n` +
+					"복원한 내용은 '위키독스 보내기'로 전송해 주세요. 계속하시겠습니까?"
+				);
+				if (confirmed) {
+					modal.close();
+					await this.restoreRevisionLocally(file, bookId, await getContent(revision.id));
+				}
+			});
+
+			const serverButton = listItem.createEl("button", { text: "서버에 복원" });
+			serverButton.classList.add("mod-warning");
+			serverButton.addEventListener("click", async () => {
+				const confirmed = await showConfirmationDialog(
+					`위키독스 페이지를 #${revision.id} 버전으로 되돌립니다.\n` +
+					"로컬 파일에는 되돌린 내용이 병합됩니다. 계속하시겠습니까?"
+				);
+				if (confirmed) {
+					modal.close();
+					const content = await getContent(revision.id);
+					await this.runSync(() => this.restoreRevisionOnServer(file, bookId, page, content));
+				}
+			});
+		}
+
+		const buttonContainer = modal.contentEl.createEl("div");
+		buttonContainer.classList.add("dialog-button-container");
+		const closeButton = buttonContainer.createEl("button", { text: "닫기" });
+		closeButton.classList.add("dialog-cancel-button");
+		closeButton.addEventListener("click", () => modal.close());
+
+		modal.open();
+	}
+
+	// 로컬 파일의 본문을 서버 버전의 내용으로 바꾼다. (front matter 유지)
+	async restoreRevisionLocally(file: TFile, bookId: number, content: string) {
+		try {
+			const localContent = await this.toLocalContent(content, file.path, bookId);
+			await this.saveSettings();
+			const frontMatter = getFrontMatterBlock(await this.app.vault.read(file));
+			await this.app.vault.modify(file, frontMatter + localContent);
+			new Notice(`${file.basename} 페이지를 복원했습니다. '위키독스 보내기'로 전송해 주세요.`);
+		} catch (error) {
+			console.error(`Failed to restore page: ${file.path}`, error);
+			new Notice(getErrorMessage(error, `${file.basename} 페이지를 복원하지 못했습니다.`));
+		}
+	}
+
+	// 서버 페이지를 이전 버전의 내용으로 저장하고, 로컬 파일에 병합한다.
+	async restoreRevisionOnServer(file: TFile, bookId: number, page: SyncedPage, content: string) {
+		const apiClient = this.clientFor(file);
+		try {
+			const serverPage = findServerPage((await apiClient.requestJson<ServerBook>(`/books/${bookId}/`)).pages, page.id);
+			if (!serverPage) {
+				new Notice(`${file.basename} 페이지가 위키독스에 없습니다.`);
+				return;
+			}
+			// 제목, 공개 여부는 서버의 현재 값을 유지한다. 위치는 동기화 인덱스의 값을 쓴다. (목차의 parent_id, order는 비어 있을 수 있다)
+			await apiClient.updatePageOnServer(new PageMetadata({
+				id: page.id,
+				subject: serverPage.subject,
+				book_id: bookId,
+				parent_id: page.parent_id,
+				order: page.order,
+				open_yn: serverPage.open_yn,
+			}), content);
+
+			const restoredPage = findServerPage((await apiClient.requestJson<ServerBook>(`/books/${bookId}/`)).pages, page.id);
+			const result = await pullPage(
+				file,
+				restoredPage ?? { ...serverPage, content },
+				bookId,
+				this.syncIndex,
+				false,
+				(content, filePath) => this.toLocalContent(content, filePath, bookId)
+			);
+			await this.saveSettings();
+			this.recordSyncResult(null);
+
+			if (result.conflicts > 0) {
+				new Notice(`위키독스 페이지를 복원했습니다. ${file.basename} 페이지의 충돌을 확인해 주세요.`);
+			} else {
+				new Notice(`${file.basename} 페이지를 위키독스에 복원했습니다.`);
+			}
+		} catch (error) {
+			console.error(`Failed to restore page on server: ${file.path}`, error);
+			new Notice(getErrorMessage(error, `${file.basename} 페이지를 위키독스에 복원하지 못했습니다.`));
+		}
+	}
+
+	/**
+	 * 페이지의 공개 여부(open_yn)를 바꾼다.
+	 * '공개 여부 바로 보내기'를 켰으면 바로 서버에 보내고, 아니면 다음 '위키독스 보내기'(또는 자동 동기화)에서 전송된다.
+	 */
+	async setPageVisibility(files: TFile[], openYn: "Y" | "N") {
+		const bookFolder = files.length > 0 ? findBookFolder(files[0]) : null;
+		if (!bookFolder) {
+			return;
+		}
+		for (const file of files) {
+			await this.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
+				frontMatter["open_yn"] = openYn;
+			});
+		}
+
+		if (this.settings.sendVisibilityNow) {
+			await this.runSync(() => this.sendPageVisibility(bookFolder, files, openYn));
+		} else {
+			new Notice(`페이지 ${files.length}개를 ${openYn === "Y" ? "공개" : "비공개"}로 바꿨습니다. '위키독스 보내기'로 전송해 주세요.`);
+			this.updateExplorerViews();
+		}
+	}
+
+	/**
+	 * 이미 보낸 페이지의 공개 여부만 서버에 보낸다. 본문, 제목은 서버의 현재 값을, 위치는 동기화 인덱스의 값을 유지한다.
+	 * 아직 보내지 않은 페이지는 다음 보내기에서 공개 여부와 함께 전송된다.
+	 */
+	async sendPageVisibility(bookFolder: TFolder, files: TFile[], openYn: "Y" | "N") {
+		const apiClient = this.clientFor(bookFolder);
+		const bookId = await getBookIdFromMetadata(bookFolder.path);
+		if (!bookId) {
+			return;
+		}
+
+		let serverPages: ServerPage[];
+		try {
+			serverPages = (await apiClient.requestJson<ServerBook>(`/books/${bookId}/`)).pages;
+		} catch (error) {
+			console.error(`Failed to fetch book ${bookId}`, error);
+			new Notice(getErrorMessage(error, "공개 여부를 보내지 못했습니다."));
+			this.recordSyncResult(getErrorMessage(error, "공개 여부를 보내지 못했습니다."));
+			return;
+		}
+
+		const sentIds: number[] = [];
+		let unsentCount = 0;
+		const failedFiles: TFile[] = [];
+		let lastError: unknown = null;
+		for (const file of files) {
+			const page = resolvePage(this.syncIndex, bookId, file);
+			const serverPage = page ? findServerPage(serverPages, page.id) : null;
+			if (!page || !serverPage) {
+				unsentCount++;
+				continue;
+			}
+			try {
+				if (serverPage.open_yn !== openYn) {
+					// 목차에는 본문이 없을 수 있으므로 페이지를 직접 가져와서 지금의 본문을 그대로 보낸다.
+					const currentPage = await apiClient.getPageFromServer(page.id);
+					await apiClient.updatePageOnServer(new PageMetadata({
+						id: page.id,
+						subject: currentPage.subject,
+						book_id: bookId,
+						parent_id: page.parent_id,
+						order: page.order,
+						open_yn: openYn,
+					}), currentPage.content);
+					sentIds.push(page.id);
+				}
+				page.open_yn = openYn;
+			} catch (error) {
+				console.error(`Failed to send page visibility: ${file.path}`, error);
+				failedFiles.push(file);
+				lastError = error;
+			}
+		}
+
+		// 본문은 그대로이므로 서버 버전만 맞춘다. (다음 보내기에서 서버 변경으로 보지 않도록)
+		if (sentIds.length > 0) {
+			try {
+				const updatedPages = (await apiClient.requestJson<ServerBook>(`/books/${bookId}/`)).pages;
+				for (const pageId of sentIds) {
+					const syncedPage = this.syncIndex.getPage(bookId, pageId);
+					const serverPage = findServerPage(updatedPages, pageId);
+					if (syncedPage && serverPage) {
+						syncedPage.version = getServerVersion(serverPage);
+					}
+				}
+			} catch (error) {
+				console.error(`Failed to fetch book ${bookId}`, error);
+			}
+		}
+		await this.saveSettings();
+
+		const label = openYn === "Y" ? "공개" : "비공개";
+		let message = `페이지 ${files.length - unsentCount - failedFiles.length}개를 ${label}로 바꿨습니다.`;
+		if (unsentCount > 0) {
+			message += `\n아직 보내지 않은 페이지 ${unsentCount}개는 '위키독스 보내기'에서 함께 전송됩니다.`;
+		}
+		if (failedFiles.length > 0) {
+			message = getErrorMessage(
+				lastError,
+				`${message}\n${failedFiles.length}개는 보내지 못했습니다. '위키독스 보내기'로 다시 전송해 주세요.\n` +
+				failedFiles.map((file) => `- ${file.basename}`).join("\n")
+			);
+			this.recordSyncResult(message);
+		} else {
+			this.recordSyncResult(null);
+		}
+		new Notice(message);
+	}
+
+	/**
+	 * metadata.md의 책 설정이 바뀌었으면 서버에 보낸다. 표지 이미지는 페이지 이미지처럼 업로드한다.
+	 */
+	async syncBookSettings(folder: TFolder): Promise<boolean> {
+		const apiClient = this.clientFor(folder);
+		const file = this.app.vault.getAbstractFileByPath(`${folder.path}/metadata.md`);
+		if (!(file instanceof TFile)) {
+			return false;
+		}
+
+		const metadata = await extractBookMetadata(file);
+		if (!metadata.isChanged()) {
+			return false;
+		}
+
+		let image = "";
+		const embeddedImages = extractEmbeddedImages(file);
+		if (embeddedImages.length > 0) {
+			const imageMap = await apiClient.uploadImagesForBook(this.app, metadata.id, embeddedImages.slice(0, 1));
+			image = imageMap[embeddedImages[0].path];
+		} else {
+			// 이미 업로드된 이미지 (![cover](url))
+			const match = metadata.cover.match(/!\[[^\]]*\]\(([^)\s]+)\)/);
+			image = match ? match[1] : "";
+		}
+
+		await apiClient.updateBookOnServer(metadata, image);
+		new Notice(`"${metadata.title}" 책 설정을 성공적으로 내보냈습니다!`);
+		return true;
+	}
+
+	/**
+	 * 마지막 동기화 이후 로컬에서 삭제된 페이지를 삭제 대기열에 넣고,
+	 * 사용자가 확인한 페이지만 서버에서 삭제한다.
+	 */
+	async reviewDeletedPages(folder: TFolder, review = true): Promise<{ deleted: number; restored: number; pending: number }> {
+		const result = { deleted: 0, restored: 0, pending: 0 };
+		const apiClient = this.clientFor(folder);
+		const bookId = await getBookIdFromMetadata(folder.path);
+		if (!bookId) {
+			return result;
+		}
+
+		const knownPages = await readBasePages(bookId);
+		const localIds = new Set<number>();
+		for (const file of getBookPageFiles(folder)) {
+			const page = resolvePage(this.syncIndex, bookId, file);
+			if (page) {
+				localIds.add(page.id);
+			}
+		}
+
+		const queue = new Set(this.settings.deletionQueue[bookId] ?? []);
+		for (const page of knownPages) {
+			if (!localIds.has(page.id)) {
+				queue.add(page.id);
+			}
+		}
+		for (const pageId of [...queue]) {
+			// 복구되었거나 서버에서 이미 없어진 페이지
+			if (localIds.has(pageId) || !knownPages.some((page) => page.id === pageId)) {
+				queue.delete(pageId);
+			}
+		}
+
+		if (review && queue.size > 0) {
+			const selection = await this.promptForDeletionReview(knownPages, [...queue], localIds);
+			if (selection) {
+				for (const page of selection.deletePages) {
+					try {
+						await apiClient.deletePageOnServer(page.id);
+						queue.delete(page.id);
+						this.syncIndex.removePage(bookId, page.id);
+						await removeBaseContent(bookId, page.id);
+						result.deleted++;
+					} catch (error) {
+						console.error(`Failed to delete page ${page.id}`, error);
+						new Notice(getErrorMessage(error, `${page.subject} 페이지를 삭제하지 못했습니다.`));
+					}
+				}
+				for (const page of selection.restorePages) {
+					// 다음 내려받기에서 다시 만들어진다.
+					queue.delete(page.id);
+					result.restored++;
+				}
+			}
+		}
+
+		result.pending = queue.size;
+		this.settings.deletionQueue[bookId] = [...queue];
+		await this.saveSettings();
+
+		if (review && result.pending > 0) {
+			new Notice(`삭제 대기 중인 페이지가 ${result.pending}개 있습니다.`);
+		}
+		return result;
+	}
+
+	async promptForDeletionReview(knownPages: BasePage[], queuedIds: number[], localIds: Set<number>):
+			Promise<{ deletePages: BasePage[]; restorePages: BasePage[] } | null> {
+		const getDescendants = (pageId: number): BasePage[] => {
+			const children = knownPages.filter((page) => page.parent_id === pageId);
+			return children.flatMap((child) => [child, ...getDescendants(child.id)]);
+		};
+		const getDepth = (page: BasePage): number => {
+			const parent = knownPages.find((p) => p.id === page.parent_id);
+			return parent ? getDepth(parent) + 1 : 0;
+		};
+
+		// 하위 페이지부터 삭제되도록 깊은 페이지를 먼저 정렬
+		const queuedPages = knownPages
+			.filter((page) => queuedIds.includes(page.id))
+			.sort((a, b) => getDepth(b) - getDepth(a));
+
+		return new Promise((resolve) => {
+			const modal = new Modal(this.app);
+			const selectedIds = new Set<number>();
+			let allowSubtree = false;
+			let resolved = false;
+
+			modal.onClose = () => {
+				if (!resolved) {
+					resolve(null);
+				}
+			};
+
+			// 헤더
+			const header = modal.contentEl.createEl("h2", {
+				text: "삭제된 페이지를 확인해 주세요.",
+			});
+			header.classList.add("book-selection-header");
+			modal.contentEl.createEl("p", {
+				text: "로컬에서 삭제된 페이지입니다. 위키독스에서도 삭제할 페이지를 선택해 주세요. " +
+					"복원한 페이지는 다음 내려받기에서 다시 만들어집니다.",
+			});
+
+			// 하위 페이지가 있는 페이지 삭제 허용
+			new Setting(modal.contentEl)
+				.setName("하위 페이지가 있는 페이지도 삭제")
+				.setDesc("위키독스에서 페이지를 삭제하면 하위 페이지도 함께 삭제됩니다.")
+				.addToggle((toggle) => {
+					toggle.setValue(allowSubtree).onChange((value) => {
+						allowSubtree = value;
+						render();
+					});
+				});
+
+			const list = modal.contentEl.createEl("ul");
+			list.classList.add("book-selection-list");
+
+			// 하위 페이지가 모두 삭제 대상이면 leaf로 취급
+			// 삭제할 수 없는 페이지도 복원은 할 수 있으므로 선택은 막지 않는다.
+			const isDeletable = (page: BasePage) =>
+				allowSubtree || getDescendants(page.id).every((child) => selectedIds.has(child.id));
+
+			const render = () => {
+				list.empty();
+				for (const page of queuedPages) {
+					const listItem = list.createEl("li");
+					listItem.classList.add("deletion-list-item");
+
+					const label = listItem.createEl("label");
+					const checkbox = label.createEl("input", { type: "checkbox" });
+					checkbox.checked = selectedIds.has(page.id);
+					checkbox.addEventListener("change", () => {
+						if (checkbox.checked) {
+							selectedIds.add(page.id);
+						} else {
+							selectedIds.delete(page.id);
+						}
+						render();
+					});
+					label.appendText(` ${page.subject}`);
+					if (!isDeletable(page)) {
+						label.appendText(" (하위 페이지가 있어 복원만 할 수 있음)");
+					}
+
+					// 함께 삭제되는 하위 페이지
+					const descendants = getDescendants(page.id);
+					if (descendants.length > 0) {
+						const subList = listItem.createEl("ul");
+						subList.classList.add("deletion-subpage-list");
+						for (const child of descendants) {
+							subList.createEl("li", {
+								text: localIds.has(child.id) ? `${child.subject} (로컬에 있음)` : child.subject,
+							});
+						}
+					}
+				}
+				deleteButton.disabled = queuedPages.some((page) => selectedIds.has(page.id) && !isDeletable(page));
+			};
+
+			const buttonContainer = modal.contentEl.createEl("div");
+			buttonContainer.classList.add("dialog-button-container");
+
+			const deleteButton = buttonContainer.createEl("button", { text: "선택한 페이지 삭제" });
+			deleteButton.classList.add("dialog-confirm-button", "mod-warning");
+			deleteButton.addEventListener("click", () => {
+				resolved = true;
+				modal.close();
+				resolve({
+					deletePages: queuedPages.filter((page) => selectedIds.has(page.id)),
+					restorePages: [],
+				});
+			});
+
+			const restoreButton = buttonContainer.createEl("button", { text: "선택한 페이지 복원" });
+			restoreButton.classList.add("dialog-confirm-button");
+			restoreButton.addEventListener("click", () => {
+				resolved = true;
+				modal.close();
+				resolve({
+					deletePages: [],
+					restorePages: queuedPages.filter((page) => selectedIds.has(page.id)),
+				});
+			});
+
+			const laterButton = buttonContainer.createEl("button", { text: "나중에" });
+			laterButton.classList.add("dialog-cancel-button");
+			laterButton.addEventListener("click", () => {
+				modal.close();
+			});
+
+			render();
+			modal.open();
+		});
+	}
+	
+
+	/**
+	 * 일반 폴더로 위키독스에 새 책을 만들고, 폴더 구조대로 페이지를 업로드한다.
+	 */
+	async createBookFromFolder(folder: TFolder, profile: string) {
+		const apiClient = this.apiClient.withProfile(profile);
+		let bookData: ServerBook;
+		try {
+			bookData = await apiClient.createBookOnServer(folder.name);
+		} catch (error) {
+			console.error(`Failed to create book "${folder.name}"`, error);
+			new Notice(getErrorMessage(error, "책을 만들지 못했습니다."));
+			return;
+		}
+		const bookId: number = bookData.id;
+		this.syncIndex.addBook(bookId);
+
+		// metadata.md 작성
+		await saveBookMetadata(folder.path, { ...bookData, subject: bookData.subject ?? folder.name }, profile);
+		const metadataFile = this.app.vault.getAbstractFileByPath(`${folder.path}/metadata.md`);
+		if (!(metadataFile instanceof TFile) || !(await waitForFrontMatter(metadataFile))) {
+			new Notice("책의 메타데이터를 만들지 못했습니다.");
+			return;
+		}
+
+		// 노트가 있는 하위 폴더는 같은 이름의 페이지가 필요하다.
+		const hasNotes = (target: TFolder): boolean => target.children.some((child) =>
+			(child instanceof TFile && child.extension === "md") || (child instanceof TFolder && hasNotes(child))
+		);
+		const createFolderPages = async (target: TFolder) => {
+			for (const child of [...target.children]) {
+				if (child instanceof TFolder && hasNotes(child)) {
+					const pagePath = `${target.path}/${child.name}.md`;
+					if (!this.app.vault.getAbstractFileByPath(pagePath)) {
+						await trackWrite([pagePath], () => this.app.vault.create(pagePath, ""));
+					}
+					await createFolderPages(child);
+				}
+			}
+		};
+		await createFolderPages(folder);
+
+		// Front Matter 추가
+		for (const file of getBookPageFiles(folder)) {
+			await addFrontMatterToFile(file);
+		}
+
+		// 상위 페이지부터 업로드
+		let uploadedCount = 0;
+		let lastError: unknown = null;
+		const serverContents: Record<number, { file: TFile; content: string }> = {}; // 업로드한 페이지 id별 서버 본문
+		const uploadPages = async (target: TFolder, parentId: number) => {
+			const files = target.children
+				.filter((child): child is TFile => child instanceof TFile && child.extension === "md" && child.name !== "metadata.md")
+				.sort((a, b) => a.basename.localeCompare(b.basename));
+
+			for (const [index, file] of files.entries()) {
+				try {
+					const fileContent = await this.app.vault.read(file);
+					const content = removeFrontMatter(fileContent);
+					const metadata = new PageMetadata({
+						id: -1,
+						subject: file.basename,
+						book_id: bookId,
+						parent_id: parentId,
+						order: index,
+						open_yn: "Y",
+					});
+
+					const createdContent = await this.toServerContent(file, content, {});
+					metadata.id = await apiClient.updatePageOnServer(metadata, createdContent);
+					await this.recordCreatedPage(file, bookId, metadata, content);
+
+					// 이미지 업로드 후 한번 더 저장
+					const pageId = metadata.id;
+					const imageMap = await this.uploadImages(extractEmbeddedImages(file), (images) => apiClient.uploadImagesForPage(this.app, pageId, images));
+					const serverContent = await this.toServerContent(file, content, imageMap);
+					if (serverContent !== createdContent) {
+						await apiClient.updatePageOnServer(metadata, serverContent);
+					}
+
+					this.syncIndex.setPage(bookId, {
+						id: pageId,
+						path: file.path,
+						subject: file.basename,
+						parent_id: parentId,
+						order: index,
+						open_yn: "Y",
+						hash: hashContent(file.basename, content),
+						version: "",
+						last_synced: new Date().toISOString(),
+					});
+					serverContents[pageId] = { file, content: serverContent };
+					uploadedCount++;
+
+					const childFolder = this.app.vault.getAbstractFileByPath(`${target.path}/${file.basename}`);
+					if (childFolder instanceof TFolder) {
+						await uploadPages(childFolder, metadata.id);
+					}
+				} catch (error) {
+					lastError = error;
+					console.error(`Failed to upload page: ${file.path}`, error);
+				}
+			}
+		};
+		await uploadPages(folder, -1);
+
+		// 서버의 페이지 목록과 페이지 버전 저장
+		try {
+			const pages = (await apiClient.requestJson<ServerBook>(`/books/${bookId}/`)).pages;
+			await saveBookPages(bookId, pages);
+			for (const syncedPage of this.syncIndex.getPages(bookId)) {
+				const serverPage = findServerPage(pages, syncedPage.id);
+				if (serverPage) {
+					syncedPage.version = getServerVersion(serverPage);
+				}
+			}
+		} catch (error) {
+			console.error(`Failed to fetch book ${bookId}`, error);
+		}
+		await this.saveSettings();
+
+		// 내려받을 때와 같은 형식으로 base 저장 (주석 등 변환으로 사라지는 내용은 base에 남기지 않는다)
+		for (const [pageId, { file, content }] of Object.entries(serverContents)) {
+			await saveBaseContent(bookId, Number(pageId), getPureContent(await this.toLocalContent(content, file.path, bookId)));
+		}
+		await this.saveSettings();
+
+		if (lastError) {
+			new Notice(getErrorMessage(
+				lastError,
+				`"${folder.name}" 책을 만들었지만 일부 페이지를 업로드하지 못했습니다. '위키독스 보내기'로 다시 전송해 주세요.`
+			));
+		} else {
+			new Notice(`"${folder.name}" 책을 만들고 페이지 ${uploadedCount}개를 업로드했습니다.`);
+		}
+	}
+
+	/**
+	 * 서버에 새로 만든 페이지의 id를 Front Matter와 동기화 인덱스에 바로 기록한다.
+	 * 이어지는 요청(이미지 업로드 등)이 실패해도 다음 보내기에서 페이지를 다시 만들지 않고 고쳐서 보낸다.
+	 */
+	async recordCreatedPage(file: TFile, bookId: number, metadata: PageMetadata, content: string) {
+		const fileContent = await this.app.vault.read(file);
+		await trackWrite([file.path], () => this.app.vault.modify(file, metadata.getFrontMatter(fileContent) + removeFrontMatter(fileContent)));
+		this.syncIndex.setPage(bookId, {
+			id: metadata.id,
+			path: file.path,
+			subject: metadata.subject,
+			parent_id: metadata.parent_id ?? -1,
+			order: metadata.order,
+			open_yn: metadata.open_yn ?? "Y",
+			hash: hashContent(metadata.subject, content),
+			version: "",
+			last_synced: new Date().toISOString(),
+			dirty: true,
+		});
+		await this.saveSettings();
+	}
+
+	/**
+	 * 이미지를 업로드하고 vault 경로별 서버 URL을 반환한다.
+	 * 이미 업로드(또는 내려받기)한 뒤 바뀌지 않은 이미지는 다시 업로드하지 않는다.
+	 */
+	async uploadImages(imageFiles: TFile[], upload: (images: TFile[]) => Promise<Record<string, string>>): Promise<Record<string, string>> {
+		const imageMap: Record<string, string> = {};
+		const newImages: TFile[] = [];
+		for (const image of imageFiles) {
+			const remoteImage = this.settings.remoteImages[image.path];
+			if (remoteImage && remoteImage.mtime === image.stat.mtime) {
+				imageMap[image.path] = remoteImage.url;
+			} else {
+				newImages.push(image);
+			}
+		}
+
+		if (newImages.length > 0) {
+			const uploaded = await upload(newImages);
+			for (const image of newImages) {
+				if (uploaded[image.path]) {
+					imageMap[image.path] = uploaded[image.path];
+					this.settings.remoteImages[image.path] = { url: uploaded[image.path], mtime: image.stat.mtime };
+				}
+			}
+			await this.saveSettings();
+		}
+		return imageMap;
+	}
+
+	/**
+	 * 서버에서 받은 페이지 본문을 로컬 형식으로 바꾼다. (위키독스 이미지를 첨부파일 폴더에 내려받기)
+	 * 내려받은 이미지는 settings.remoteImages에 기록되므로 호출한 쪽에서 작업을 마친 뒤 한 번 저장한다.
+	 */
+	async toLocalContent(content: string, filePath: string, bookId: number): Promise<string> {
+		const folder = this.app.vault.getAbstractFileByPath(filePath.substring(0, filePath.lastIndexOf("/")));
+		const bookFolder = folder ? findBookFolder(folder) : null;
+		if (!bookFolder) {
+			return content;
+		}
+
+		const origin = this.getServerOrigin(filePath);
+		const attachmentFolderPath = `${bookFolder.path}/${this.settings.attachmentFolder}`;
+		let localContent = await localizeImages(
+			content,
+			filePath,
+			attachmentFolderPath,
+			origin,
+			this.settings.remoteImages,
+			(url) => this.apiClient.download(url)
+		);
+
+		// 같은 책의 페이지 링크를 위키링크로
+		localContent = pageLinksToWikiLinks(localContent, origin, await readBasePages(bookId));
+
+		// 보낼 때 바꾼 부분(줄바꿈 등)만 되돌리도록 지금의 로컬 본문과 비교한다.
+		const localFile = this.app.vault.getAbstractFileByPath(filePath);
+		const currentContent = localFile instanceof TFile ? getPureContent(await this.app.vault.cachedRead(localFile)) : null;
+		return await convertToLocal(localContent, this.settings.conversionRules, currentContent);
+	}
+
+	/**
+	 * 로컬 페이지 본문을 위키독스 형식으로 바꾼다. (이미지 URL, 페이지 링크, 마크다운 변환 규칙)
+	 */
+	async toServerContent(file: TFile, content: string, imageMap: Record<string, string>): Promise<string> {
+		let serverContent = replaceImageEmbeds(file, content, imageMap);
+		serverContent = wikiLinksToPageLinks(file, serverContent, this.getServerOrigin(file.path), this.syncIndex);
+		return await convertToServer(this.app, serverContent, file, this.settings.conversionRules);
+	}
+
+	// 경로가 속한 책의 위키독스 페이지 URL의 origin (https://wikidocs.net)
+	getServerOrigin(path: string): string {
+		return new URL(this.clientFor(path).profile.apiBaseUrl).origin;
+	}
+
+	// 경로가 속한 책이나 블로그에 연결된 프로필로 요청하는 클라이언트
+	clientFor(fileOrPath: TAbstractFile | string): ApiClient {
+		return this.apiClient.withProfile(getProfileName(typeof fileOrPath === "string" ? fileOrPath : fileOrPath.path));
+	}
+
+	/**
+	 * 책이나 블로그를 가져올 프로필을 선택한다. 프로필이 하나뿐이면 묻지 않는다.
+	 */
+	async promptForProfile(): Promise<string | null> {
+		const profiles = this.settings.profiles;
+		if (profiles.length <= 1) {
+			return profiles[0]?.name ?? null;
+		}
+
+		return new Promise((resolve) => {
+			let chosen: string | null = null;
+			const modal = new ProfileSuggestModal(this.app, profiles.map((profile) => profile.name), (name) => {
+				chosen = name;
+			});
+			// 항목을 고르면 창이 닫힌 뒤에 onChooseItem이 호출된다.
+			modal.onClose = () => setTimeout(() => resolve(chosen), 0);
+			modal.open();
+		});
+	}
+
+	promptForPageMove(file: TFile) {
+		const bookFolder = findBookFolder(file);
+		if (!bookFolder) {
+			return;
+		}
+
+		// 자기 자신과 하위 페이지로는 이동할 수 없다.
+		const childFolderPath = `${file.parent?.path}/${file.basename}/`;
+		const targets = getBookPageFiles(bookFolder).filter((page) =>
+			page !== file && !page.path.startsWith(childFolderPath)
+		);
+
+		new PageMoveModal(this.app, targets, async (target) => {
+			await this.movePage(file, target);
+		}).open();
+	}
+
+	/**
+	 * 페이지를 target 페이지의 하위 페이지로 이동한다. target이 null이면 책의 최상위로 이동한다.
+	 * 부모 페이지는 보낼 때 폴더 구조에서 구하고, 빈 폴더 정리는 rename 이벤트에서 처리된다.
+	 */
+	async movePage(file: TFile, target: TFile | null) {
+		const bookFolder = findBookFolder(file);
+		if (!bookFolder) {
+			return;
+		}
+
+		if (target) {
+			if (!this.syncIndex.findByPath(target.path)) {
+				new Notice(`${target.basename} 페이지를 먼저 '위키독스 보내기'로 전송해 주세요.`);
+				return;
+			}
+		}
+
+		const folderPath = target ? `${target.parent?.path}/${target.basename}` : bookFolder.path;
+		const newPath = `${folderPath}/${file.name}`;
+		if (newPath === file.path) {
+			return;
+		}
+		if (this.app.vault.getAbstractFileByPath(newPath)) {
+			new Notice(`같은 이름의 페이지가 이미 있습니다: ${newPath}`);
+			return;
+		}
+
+		await ensureFolderExists(folderPath);
+		await this.app.vault.rename(file, newPath);
+		new Notice(`${file.basename} 페이지를 이동했습니다. '위키독스 보내기'로 전송해 주세요.`);
+	}
+
+	async promptForBookSelection(profile: string): Promise<number | null> {
+		let books: { id: number; subject: string }[];
+		try {
+			books = await this.apiClient.withProfile(profile).requestJson(`/books/`);
+		} catch (error) {
+			console.error("Failed to fetch books", error);
+			new Notice(getErrorMessage(error, "책 목록을 가져오지 못했습니다."));
+			return null;
+		}
+	
+		return new Promise((resolve) => {
+			const modal = new Modal(this.app);
+	
 			modal.onClose = () => resolve(null);
 	
 			// 헤더
@@ -455,39 +2254,45 @@ export default class WikiDocsPlugin extends Plugin {
 		});
 	}
 
-	async promptForBlogSelection(): Promise<Response | null> {
+	async promptForBlogSelection(): Promise<number | null> {
 		const answer = window.confirm("블로그를 가져오시겠습니까?");
-		if (answer) {
-			const response = await this.apiClient.fetchWithAuth("/blog/profile/");
-			if (response.ok) {
-				const data = await response.json();
-				
-				// data.name 에 해당하는 폴더가 없으면 폴더를 생성하고
-				if (!this.app.vault.getAbstractFileByPath(data.name)) {
-					await this.app.vault.createFolder(data.name);
-					addBlogIconToFolder(data.name);
-				}else {
-					new Notice("블로그 폴더가 이미 존재합니다.");
-					return null;
-				}
-
-				// metadata.md 파일을 생성한다.
-				const metadataPath = `${data.name}/blog_metadata.md`;
-				const metadataContent = `---\n` +
-					`id: ${data.id}\n` +
-					`url: ${data.url}\n` +
-					`name: ${data.name}\n` +
-					`---\n`;
-				
-				await this.app.vault.create(metadataPath, metadataContent);
-				return data.id;
+		const profile = answer ? await this.promptForProfile() : null;
+		if (profile) {
+			let data;
+			try {
+				data = await this.apiClient.withProfile(profile).requestJson<BlogProfile>("/blog/profile/");
+			} catch (error) {
+				console.error("Failed to fetch blog profile", error);
+				new Notice(getErrorMessage(error, "블로그 정보를 가져오지 못했습니다."));
+				return null;
+			}
+
+			// data.name 에 해당하는 폴더가 없으면 폴더를 생성하고
+			if (!this.app.vault.getAbstractFileByPath(data.name)) {
+				await this.app.vault.createFolder(data.name);
+				addBlogIconToFolder(data.name);
+			}else {
+				new Notice("블로그 폴더가 이미 존재합니다.");
+				return null;
 			}
+
+			// metadata.md 파일을 생성한다.
+			const metadataPath = `${data.name}/blog_metadata.md`;
+			const metadataContent = mergeFrontMatter(null, {
+				id: data.id,
+				url: data.url,
+				name: data.name,
+				profile,
+			});
+
+			await this.app.vault.create(metadataPath, metadataContent);
+			return data.id;
 		}
 
 		return null;
 	}
 
-	async promptForBlogListSelection(): Promise<number | null> {
+	async promptForBlogListSelection(folder: TFolder): Promise<number | null> {
 		let currentPage = 1;
 		let hasMore = true;
 		
@@ -513,20 +2318,25 @@ export default class WikiDocsPlugin extends Plugin {
 			
 			// 블로그 목록 로드 함수
 			const loadBlogPages = async (page: number) => {
-				const response = await this.apiClient.fetchWithAuth(`/blog/list/${page}`);
-				if (!response.ok) {
-					new Notice("더 이상 가져올 블로그 목록이 없습니다.");
+				let blog;
+				try {
+					blog = await this.clientFor(folder).requestJson<{ blog_pages: BlogListItem[] }>(`/blog/list/${page}`);
+				} catch (error) {
+					if (error instanceof WikiDocsNotFoundError) {
+						new Notice("더 이상 가져올 블로그 목록이 없습니다.");
+					} else {
+						console.error(`Failed to fetch blog list ${page}`, error);
+						new Notice(getErrorMessage(error, "블로그 목록을 가져오지 못했습니다."));
+					}
 					return false;
 				}
-				
-				const blog = await response.json();
 				const blog_pages = blog.blog_pages;
 				
 				// 더 보기 버튼 표시 여부 결정
 				hasMore = blog_pages.length > 0;
 				
 				// 블로그 항목 추가
-				blog_pages.forEach((blog: { id: number; title: string; is_public: boolean }) => {
+				blog_pages.forEach((blog) => {
 					const listItem = list.createEl("li");
 					
 					// 공개 여부 표시
@@ -579,152 +2389,732 @@ export default class WikiDocsPlugin extends Plugin {
 					});
 				}
 			};
-			
-			// 초기 데이터 로드
-			(async () => {
-				const hasItems = await loadBlogPages(currentPage);
-				
-				// 빈 목록 처리
-				if (!hasItems && currentPage === 1) {
-					const emptyMessage = list.createEl("li", {
-						text: "작성된 블로그가 없습니다.",
+			
+			// 초기 데이터 로드
+			(async () => {
+				const hasItems = await loadBlogPages(currentPage);
+				
+				// 빈 목록 처리
+				if (!hasItems && currentPage === 1) {
+					const emptyMessage = list.createEl("li", {
+						text: "작성된 블로그가 없습니다.",
+					});
+					emptyMessage.classList.add("book-selection-empty-message");
+					hasMore = false;
+					updateLoadMoreButton();
+				}
+			})();
+			
+			modal.open();
+		});
+	}
+
+
+	async blog_post(file: TFile) {
+		if (file.name === "blog_metadata.md") {
+			// metadata.md 파일은 업로드하지 않음
+			return;
+		}
+		try {
+			const blog_id = await this.sendBlogPost(file);
+			new Notice(`${file.name} 블로그를 성공적으로 내보냈습니다!`);
+			this.blog_update(file, blog_id);
+		} catch (error) {
+			console.error(`블로그 포스팅을 실패했습니다.: ${file.path}`, error);
+			new Notice(getErrorMessage(error, `${file.name} 블로그를 내보내지 못했습니다.`));
+		}
+	}
+
+	async blog_update(file:TFile, blog_id:number) {
+		try {
+			await this.pullBlogPost(file, blog_id);
+			new Notice("블로그를 성공적으로 가져왔습니다.");
+		} catch (error) {
+			console.error(`블로그 가져오기를 실패했습니다.: ${file.path}`, error);
+			new Notice(getErrorMessage(error, "블로그를 가져오지 못했습니다."));
+		}
+	}
+
+	/**
+	 * 블로그 글을 보내고 블로그 id를 반환한다. 아직 보내지 않은 글(id가 -1)은 먼저 만든다.
+	 */
+	async sendBlogPost(file: TFile): Promise<number> {
+		const apiClient = this.clientFor(file);
+
+		// Front Matter가 없는 글은 새 글로 보낸다.
+		if (!this.app.metadataCache.getFileCache(file)?.frontmatter) {
+			await addBlogFrontMatterToFile(file);
+			await waitForFrontMatter(file);
+		}
+		const fileContent = await this.app.vault.read(file);
+		const metadata = await extractMetadataFromBlogFrontMatter(file);
+
+		if (!metadata.id) {
+			throw new Error(`No ID found in Front Matter for file: ${file.path}`);
+		}
+
+		// id가 -1인 경우에는 블로그 생성
+		let blog_id = -1;
+		if(metadata.id == -1) {
+			const data = await apiClient.requestJson<{ id: number }>(`/blog/create/`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({}),
+			});
+			blog_id = data.id;
+
+			// 이어지는 요청(이미지 업로드 등)이 실패해도 다시 보낼 때 새 글을 또 만들지 않도록 id를 바로 기록한다.
+			await trackWrite([file.path], () => this.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
+				frontMatter["id"] = blog_id;
+			}));
+		}else {
+			blog_id = metadata.id;
+		}
+
+		// 이미지 파일 처리
+		const embeddedImages = extractEmbeddedImages(file);
+		const imageMap = await this.uploadImages(embeddedImages, (images) => apiClient.uploadImagesForBlog(this.app, blog_id, images));
+
+		// 블로그 보내기
+		const title = extractTitleFromFilePath(file.path);
+		const content = await convertToServer(this.app, replaceImageEmbeds(file, removeFrontMatter(fileContent), imageMap), file, this.settings.conversionRules);
+		let tags = metadata.tags;
+		if (this.settings.blogInlineTags) {
+			const inlineTags = this.app.metadataCache.getFileCache(file)?.tags?.map((tag) => tag.tag) ?? [];
+			tags = parseBlogTags([...tags, ...inlineTags]);
+		}
+
+		await apiClient.requestJson(`/blog/${blog_id}/`, {
+			method: "PUT",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				"title": title,
+				"content": content,
+				"is_public": metadata.is_public,
+				"tags": tags.join(","),
+			}),
+		});
+		// 새 태그가 자동 완성 후보에 나오도록 서버 태그를 다시 가져온다.
+		this.blogTagCache.delete(getProfileName(file.path) ?? this.settings.defaultProfile);
+		return blog_id;
+	}
+
+	/**
+	 * 서버의 블로그 글로 파일의 Front Matter와 내용을 바꾸고, 제목이 바뀌었으면 파일 이름도 바꾼다.
+	 */
+	async pullBlogPost(file: TFile, blog_id: number) {
+		const blog = await this.clientFor(file).requestJson<BlogPost>(`/blog/${blog_id}`);
+		await this.writeBlogPost(file, blog);
+	}
+
+	// 받은 블로그 글로 파일 내용을 바꾼다. 제목이 바뀌었으면 파일 이름도 바꾼다.
+	// 같은 이름의 다른 파일이 있으면 (예: 'Title (id).md'로 내려받은 글) 지금 이름을 유지한다.
+	async writeBlogPost(file: TFile, blog: BlogPost) {
+		if(file.parent) {
+			const filePath = `${file.parent.path}/${sanitizeFileName(blog.title)}.md`;
+			if (file.path !== filePath && !this.app.vault.getAbstractFileByPath(filePath)) {
+				await trackWrite([file.path, filePath], () => this.app.vault.rename(file, filePath));
+			}
+			const content = getBlogMarkdown(blog, await this.app.vault.read(file), file.basename);
+			await trackWrite([file.path], () => this.app.vault.modify(file, content));
+			await addBlogIconToFile(file.path, blog);
+		}
+	}
+
+	/**
+	 * 태그 자동 완성 후보. 서버의 블로그 태그는 프로필별로 한 번만 가져오고, 같은 블로그 폴더의 글에 쓴 태그를 더한다.
+	 */
+	async getBlogTagSuggestions(file: TFile): Promise<string[]> {
+		const profile = getProfileName(file.path) ?? this.settings.defaultProfile;
+		let serverTags = this.blogTagCache.get(profile);
+		if (!serverTags) {
+			// 가져오지 못하면 이번에는 로컬 태그만 쓰고, 다음에 다시 가져온다.
+			serverTags = this.clientFor(file).getBlogTags().catch((error) => {
+				console.error("Failed to fetch blog tags", error);
+				this.blogTagCache.delete(profile);
+				return [];
+			});
+			this.blogTagCache.set(profile, serverTags);
+		}
+		const localTags = file.parent
+			? getBlogPostFiles(file.parent).flatMap((post) => parseBlogTags(this.app.metadataCache.getFileCache(post)?.frontmatter?.tags))
+			: [];
+		return parseBlogTags([...(await serverTags), ...localTags]);
+	}
+
+	/**
+	 * 블로그 폴더의 새 글과 마지막 동기화 이후 수정된 글을 모두 보내고, 결과를 한 번에 알린다.
+	 */
+	async syncBlogToServer(folder: TFolder) {
+		const posts: { file: TFile; change: "new" | "modified" }[] = [];
+		for (const file of getBlogPostFiles(folder)) {
+			const change = await getBlogPostChange(file);
+			if (change) {
+				posts.push({ file, change });
+			}
+		}
+		if (posts.length === 0) {
+			new Notice("보낼 블로그 글이 없습니다.");
+			return;
+		}
+
+		let createdCount = 0;
+		let updatedCount = 0;
+		const failedFiles: TFile[] = [];
+		let lastError: unknown = null;
+		for (const { file, change } of posts) {
+			try {
+				const blog_id = await this.sendBlogPost(file);
+				await this.pullBlogPost(file, blog_id);
+				if (change === "new") {
+					createdCount++;
+				} else {
+					updatedCount++;
+				}
+			} catch (error) {
+				console.error(`블로그 포스팅을 실패했습니다.: ${file.path}`, error);
+				failedFiles.push(file);
+				lastError = error;
+			}
+		}
+
+		const summary = `블로그 글 ${createdCount + updatedCount}개를 내보냈습니다. (새 글 ${createdCount}개, 수정 ${updatedCount}개)`;
+		if (failedFiles.length > 0) {
+			new Notice(getErrorMessage(
+				lastError,
+				`${summary}\n${failedFiles.length}개는 내보내지 못했습니다.\n` +
+				failedFiles.map((file) => `- ${file.basename}`).join("\n")
+			));
+		} else {
+			new Notice(summary);
+		}
+	}
+
+	/**
+	 * 블로그 목록을 끝까지 읽어 조건에 맞는 글을 모두 블로그 폴더에 내려받는다.
+	 * 이미 내려받은 글(Front Matter의 id가 같은 글)은 새로 만들지 않고 갱신하며, 보내지 않은 로컬 수정이 있는 글은 건너뛴다.
+	 */
+	async downloadBlogArchive(folder: TFolder, filter: BlogArchiveFilter) {
+		const apiClient = this.clientFor(folder);
+		let posts;
+		try {
+			posts = await apiClient.getAllBlogPosts();
+		} catch (error) {
+			console.error("Failed to fetch blog list", error);
+			new Notice(getErrorMessage(error, "블로그 목록을 가져오지 못했습니다."));
+			return;
+		}
+		if (filter.visibility !== "all") {
+			posts = posts.filter((post) => post.is_public === (filter.visibility === "public"));
+		}
+
+		const localFiles = new Map<number, TFile>();
+		for (const file of getBlogPostFiles(folder)) {
+			const id = Number(this.app.metadataCache.getFileCache(file)?.frontmatter?.id);
+			if (id > 0) {
+				localFiles.set(id, file);
+			}
+		}
+
+		// 기간은 작성일(created_at) 기준이다. 작성일을 알 수 없는 글은 기간을 정하면 제외한다.
+		// 목록은 최근 글부터이므로 시작일보다 오래된 글이 나오면 그 뒤의 글은 가져오지 않는다.
+		const from = filter.from ? new Date(`${filter.from}T00:00:00`) : null;
+		const to = filter.to ? new Date(`${filter.to}T23:59:59.999`) : null;
+		const getCreatedAt = (blog: { created_at?: string }) => blog.created_at ? new Date(blog.created_at) : null;
+		const isInRange = (createdAt: Date | null) => {
+			if (!from && !to) {
+				return true;
+			}
+			return !!createdAt && (!from || createdAt >= from) && (!to || createdAt <= to);
+		};
+
+		const notice = new Notice("블로그를 내려받는 중입니다.", 0);
+		let createdCount = 0;
+		let updatedCount = 0;
+		const skippedFiles: TFile[] = [];
+		const failedPosts: string[] = [];
+		let lastError: unknown = null;
+		try {
+			for (const [index, post] of posts.entries()) {
+				notice.setMessage(`블로그를 내려받는 중입니다. (${index + 1}/${posts.length})`);
+				try {
+					const blog = await apiClient.requestJson<BlogPost>(`/blog/${post.id}`);
+					const createdAt = getCreatedAt(blog);
+					if (from && createdAt && createdAt < from) {
+						break;
+					}
+					if (!isInRange(createdAt)) {
+						continue;
+					}
+					const file = localFiles.get(post.id);
+					if (file && await getBlogPostChange(file)) {
+						skippedFiles.push(file);
+					} else if (file) {
+						await this.writeBlogPost(file, blog);
+						updatedCount++;
+					} else {
+						// 제목이 같은 다른 글이 있으면 id를 붙인다.
+						let filePath = `${folder.path}/${sanitizeFileName(blog.title)}.md`;
+						if (this.app.vault.getAbstractFileByPath(filePath)) {
+							filePath = `${folder.path}/${sanitizeFileName(blog.title)} (${blog.id}).md`;
+						}
+						await trackWrite([filePath], () => this.app.vault.create(filePath, getBlogMarkdown(blog, null, extractTitleFromFilePath(filePath))));
+						createdCount++;
+					}
+				} catch (error) {
+					console.error(`Failed to download blog ${post.id}`, error);
+					failedPosts.push(post.title);
+					lastError = error;
+				}
+			}
+		} finally {
+			notice.hide();
+		}
+
+		let summary = `블로그 글 ${createdCount + updatedCount}개를 내려받았습니다. (새 글 ${createdCount}개, 갱신 ${updatedCount}개)`;
+		if (skippedFiles.length > 0) {
+			summary += `\n보내지 않은 수정이 있는 글 ${skippedFiles.length}개는 건너뛰었습니다.\n` +
+				skippedFiles.map((file) => `- ${file.basename}`).join("\n");
+		}
+		if (failedPosts.length > 0) {
+			new Notice(getErrorMessage(
+				lastError,
+				`${summary}\n${failedPosts.length}개는 내려받지 못했습니다.\n` +
+				failedPosts.map((title) => `- ${title}`).join("\n")
+			));
+		} else {
+			new Notice(summary);
+		}
+	}
+
+	// 블로그 전체 내려받기의 조건을 묻는다. 취소하면 null을 반환한다.
+	async promptForBlogArchiveFilter(): Promise<BlogArchiveFilter | null> {
+		return new Promise((resolve) => {
+			const modal = new Modal(this.app);
+			const filter: BlogArchiveFilter = { visibility: "all", from: "", to: "" };
+			let resolved = false;
+
+			modal.onClose = () => {
+				if (!resolved) {
+					resolve(null);
+				}
+			};
+
+			const header = modal.contentEl.createEl("h2", {
+				text: "블로그 전체 내려받기",
+			});
+			header.classList.add("book-selection-header");
+			modal.contentEl.createEl("p", {
+				text: "조건에 맞는 글을 모두 내려받습니다. 이미 내려받은 글은 서버 내용으로 갱신합니다.",
+			});
+
+			new Setting(modal.contentEl)
+				.setName("공개 여부")
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("all", "모든 글")
+						.addOption("public", "공개 글만")
+						.addOption("private", "비공개 글만")
+						.setValue(filter.visibility)
+						.onChange((value) => {
+							filter.visibility = value as BlogArchiveFilter["visibility"];
+						});
+				});
+
+			new Setting(modal.contentEl)
+				.setName("시작일")
+				.setDesc("이 날짜 이후에 작성한 글만 내려받습니다. 비워 두면 제한하지 않습니다.")
+				.addText((text) => {
+					text.inputEl.type = "date";
+					text.onChange((value) => {
+						filter.from = value;
 					});
-					emptyMessage.classList.add("book-selection-empty-message");
-					hasMore = false;
-					updateLoadMoreButton();
+				});
+
+			new Setting(modal.contentEl)
+				.setName("종료일")
+				.setDesc("이 날짜까지 작성한 글만 내려받습니다. 비워 두면 제한하지 않습니다.")
+				.addText((text) => {
+					text.inputEl.type = "date";
+					text.onChange((value) => {
+						filter.to = value;
+					});
+				});
+
+			const buttonContainer = modal.contentEl.createEl("div");
+			buttonContainer.classList.add("dialog-button-container");
+
+			const downloadButton = buttonContainer.createEl("button", { text: "내려받기" });
+			downloadButton.classList.add("dialog-confirm-button", "mod-cta");
+			downloadButton.addEventListener("click", () => {
+				if (filter.from && filter.to && filter.from > filter.to) {
+					new Notice("시작일이 종료일보다 늦습니다.");
+					return;
 				}
-			})();
-			
+				resolved = true;
+				modal.close();
+				resolve(filter);
+			});
+
+			const cancelButton = buttonContainer.createEl("button", { text: "취소" });
+			cancelButton.classList.add("dialog-cancel-button");
+			cancelButton.addEventListener("click", () => modal.close());
+
 			modal.open();
 		});
 	}
 
+	// 조건을 물은 뒤 블로그 폴더에 블로그 전체를 내려받는다.
+	async downloadBlogFolder(folder: TFolder) {
+		const filter = await this.promptForBlogArchiveFilter();
+		if (filter) {
+			await this.runSync(() => this.downloadBlogArchive(folder, filter));
+		}
+	}
 
-	async blog_post(file: TFile) {
-		try {
-			if (file.name === "blog_metadata.md") {
-				// metadata.md 파일은 업로드하지 않음
-				return;
-			}
+	// 설정 저장
+	async loadSettings() {
+		const { apiBaseUrl, apiToken, ...data }: LegacySettings = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
 
-			const fileContent = await this.app.vault.read(file);
-			const metadata = await extractMetadataFromBlogFrontMatter(file);
+		// 이전 버전의 API 설정은 기본 프로필로 옮긴다.
+		if (!data.profiles && (apiBaseUrl !== undefined || apiToken !== undefined)) {
+			this.settings.profiles = [{
+				name: DEFAULT_SETTINGS.defaultProfile,
+				apiBaseUrl: apiBaseUrl || DEFAULT_API_BASE_URL,
+				apiToken: apiToken ?? "",
+			}];
+			await this.saveSettings();
+		}
+		this.settings.profiles = this.settings.profiles.map((profile) => ({ ...profile }));
+	}
 
-			if (!metadata.id) {
-				console.error(`No ID found in Front Matter for file: ${file.path}`);
-				return;
-			}
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+}
 
-			// 동기화 시점 확인
-			const lastSynced = metadata.last_synced ? new Date(metadata.last_synced) : null;
-			const fileModifiedAt = getFileModifiedTime(file);
+// 탐색기 패널의 배지
+const EXPLORER_BADGE_LABELS: Record<ExplorerBadge, string> = {
+	new: "신규",
+	modified: "변경",
+	conflict: "⚠️ 충돌",
+	private: "🔒 비공개",
+	images: "이미지",
+};
 
-			// const contentWithoutFrontMatter = ensureLineBreaks(removeFrontMatter(fileContent));
-			
+interface ExplorerAction {
+	icon: string;
+	label: string;
+	onClick: () => Promise<void>;
+}
 
-			// id가 -1인 경우에는 블로그 생성
-			let blog_id = -1;
-			if(metadata.id == -1) {
-				const response = await this.apiClient.fetchWithAuth(`/blog/create/`, {
-					method: "POST",
-					headers: {
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({}),
-				});
+// 내려받은 책과 블로그를 위키독스 순서의 트리로 보여주는 패널
+class WikiDocsExplorerView extends ItemView {
+	plugin: WikiDocsPlugin;
+	private collapsed = new Set<string>(); // 접은 항목의 경로
+	private renderId = 0;
 
-				// 결과 처리
-				if (response.ok) {
-					const data = await response.json();
-					blog_id = data.id;
-				} else {
-					console.error(`Failed to create blog`);
-					return;
-				}
-			}else {
-				blog_id = metadata.id;
-			}
+	constructor(leaf: WorkspaceLeaf, plugin: WikiDocsPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
 
-			// 이미지 파일 처리
-			const embeddedImages = extractEmbeddedImages(file);
-			if (embeddedImages) {
-				const imageMap = await this.apiClient.uploadImagesForBlog(this.app, blog_id, embeddedImages);
-			}
-			
-			// 블로그 보내기
-			const title = extractTitleFromFilePath(file.path);
-			const content = removeFrontMatter(fileContent);
-			try {
-				metadata.tags = metadata.tags.join(',')
-			}catch(e) {
+	getViewType(): string {
+		return VIEW_TYPE_EXPLORER;
+	}
+
+	getDisplayText(): string {
+		return "위키독스";
+	}
+
+	getIcon(): string {
+		return "list-tree";
+	}
+
+	async onOpen() {
+		await this.render();
+	}
+
+	async render() {
+		// 트리를 만드는 동안 다시 호출되면 마지막 호출의 결과만 표시한다.
+		const renderId = ++this.renderId;
+		const books = await getExplorerBooks(this.plugin.syncIndex, this.plugin.settings.remoteImages);
+		const blogs = await getExplorerBlogs(this.plugin.settings.remoteImages);
+		if (renderId !== this.renderId) {
+			return;
+		}
+
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("wikidocs-explorer");
+		if (books.length === 0 && blogs.length === 0) {
+			container.createEl("p", { text: "내려받은 책이나 블로그가 없습니다.", cls: "wikidocs-explorer-empty" });
+			return;
+		}
+
+		for (const book of books) {
+			const childrenEl = this.renderRow(container, book.folder.path, `📘 ${book.title}`, [], book.items.length > 0, [
+				{
+					icon: "cloud-upload",
+					label: "위키독스 보내기",
+					onClick: () => this.plugin.runSync(() => this.plugin.syncToServer(book.folder)),
+				},
+				{
+					icon: "cloud-download",
+					label: "위키독스 내려받기",
+					onClick: () => this.plugin.downloadBookFolder(book.folder),
+				},
+			]);
+			this.renderPages(childrenEl, book.folder, book.items);
+		}
+
+		for (const blog of blogs) {
+			const childrenEl = this.renderRow(container, blog.folder.path, `📝 ${blog.folder.name}`, [], blog.items.length > 0, [
+				{
+					icon: "cloud-upload",
+					label: "블로그 전체 보내기",
+					onClick: () => this.plugin.runSync(() => this.plugin.syncBlogToServer(blog.folder)),
+				},
+				{
+					icon: "cloud-download",
+					label: "블로그 전체 내려받기",
+					onClick: () => this.plugin.downloadBlogFolder(blog.folder),
+				},
+			]);
+			for (const item of blog.items) {
+				this.renderRow(childrenEl, item.file.path, item.file.basename, item.badges, false, [
+					{
+						icon: "cloud-upload",
+						label: "블로그 보내기",
+						onClick: () => this.plugin.blog_post(item.file),
+					},
+					...(item.badges.includes("new") ? [] : [{
+						icon: "cloud-download",
+						label: "블로그 내려받기",
+						onClick: async () => {
+							const metadata = await extractMetadataFromBlogFrontMatter(item.file);
+							await this.plugin.blog_update(item.file, metadata.id);
+						},
+					}]),
+				], item.file);
 			}
+		}
+	}
 
-			const response = await this.apiClient.fetchWithAuth(`/blog/${blog_id}/`, {
-				method: "PUT",
-				headers: {
-					"Content-Type": "application/json",
+	private renderPages(parentEl: HTMLElement, bookFolder: TFolder, items: ExplorerItem[]) {
+		for (const item of items) {
+			const childrenEl = this.renderRow(parentEl, item.file.path, item.file.basename, item.badges, item.children.length > 0, [
+				{
+					icon: "cloud-upload",
+					label: "페이지 보내기",
+					onClick: () => this.plugin.runSync(() => this.plugin.syncToServer(bookFolder, { files: [item.file] })),
 				},
-				body: JSON.stringify({
-					"title": title,
-					"content": content,
-					"is_public": metadata.is_public,
-					"tags": metadata.tags,
-				}),
+				...(item.badges.includes("new") ? [] : [{
+					icon: "cloud-download",
+					label: "페이지 내려받기",
+					onClick: () => this.plugin.runSync(() => this.plugin.downloadPage(item.file)),
+				}]),
+				item.badges.includes("private")
+					? { icon: "unlock", label: "공개로 바꾸기", onClick: () => this.plugin.setPageVisibility([item.file], "Y") }
+					: { icon: "lock", label: "비공개로 바꾸기", onClick: () => this.plugin.setPageVisibility([item.file], "N") },
+			], item.file);
+			this.renderPages(childrenEl, bookFolder, item.children);
+		}
+	}
+
+	// 항목 한 줄을 만들고 하위 항목을 넣을 요소를 반환한다. file이 있으면 클릭해서 연다.
+	private renderRow(
+		parentEl: HTMLElement,
+		path: string,
+		title: string,
+		badges: ExplorerBadge[],
+		collapsible: boolean,
+		actions: ExplorerAction[],
+		file?: TFile
+	): HTMLElement {
+		const itemEl = parentEl.createDiv({ cls: "tree-item" });
+		const selfEl = itemEl.createDiv({ cls: "tree-item-self is-clickable" });
+		const childrenEl = itemEl.createDiv({ cls: "tree-item-children" });
+
+		let toggleCollapsed: (() => void) | null = null;
+		if (collapsible) {
+			selfEl.addClass("mod-collapsible");
+			const collapseEl = selfEl.createDiv({ cls: "tree-item-icon collapse-icon" });
+			setIcon(collapseEl, "right-triangle");
+			const update = () => {
+				const collapsed = this.collapsed.has(path);
+				itemEl.toggleClass("is-collapsed", collapsed);
+				collapseEl.toggleClass("is-collapsed", collapsed);
+				childrenEl.toggle(!collapsed);
+			};
+			toggleCollapsed = () => {
+				if (!this.collapsed.delete(path)) {
+					this.collapsed.add(path);
+				}
+				update();
+			};
+			update();
+			collapseEl.addEventListener("click", (evt) => {
+				evt.stopPropagation();
+				toggleCollapsed?.();
 			});
+		}
 
-			if (response.ok) {
-				const data = await response.json();
-				new Notice(`${file.name} 블로그를 성공적으로 내보냈습니다!`);
-				this.blog_update(file, blog_id);
+		selfEl.createDiv({ cls: "tree-item-inner", text: title });
+		for (const badge of badges) {
+			selfEl.createSpan({ cls: `wikidocs-explorer-badge wikidocs-explorer-${badge}`, text: EXPLORER_BADGE_LABELS[badge] });
+		}
+
+		const actionsEl = selfEl.createDiv({ cls: "wikidocs-explorer-actions" });
+		for (const action of actions) {
+			const buttonEl = actionsEl.createDiv({ cls: "clickable-icon", attr: { "aria-label": action.label } });
+			setIcon(buttonEl, action.icon);
+			buttonEl.addEventListener("click", async (evt) => {
+				evt.stopPropagation();
+				await action.onClick();
+			});
+		}
 
+		selfEl.addEventListener("click", async () => {
+			if (file) {
+				await this.app.workspace.getLeaf(false).openFile(file);
 			} else {
-				console.error(`Failed to create blog`);
-				return;
+				toggleCollapsed?.();
 			}
-		} catch (error) {
-			console.error(`블로그 포스팅을 실패했습니다.: ${file.path}`, error);
+		});
+		return childrenEl;
+	}
+}
+
+// 블로그 글의 태그 자동 완성 (Front Matter의 tags 목록과 본문의 #태그)
+class BlogTagSuggest extends EditorSuggest<string> {
+	constructor(private plugin: WikiDocsPlugin) {
+		super(plugin.app);
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		if (
+			!file?.parent || file.name === "blog_metadata.md" ||
+			!(this.app.vault.getAbstractFileByPath(`${file.parent.path}/blog_metadata.md`) instanceof TFile)
+		) {
+			return null;
+		}
+
+		const line = editor.getLine(cursor.line).slice(0, cursor.ch);
+		const match = this.isInFrontMatter(editor, cursor.line)
+			? (this.isInTagsList(editor, cursor.line) ? line.match(/^\s*-\s+([^\s,]*)$/) : null)
+			: line.match(/(?:^|\s)#([^\s#]*)$/);
+		if (!match) {
+			return null;
 		}
+		return {
+			start: { line: cursor.line, ch: cursor.ch - match[1].length },
+			end: cursor,
+			query: match[1],
+		};
 	}
 
-	async blog_update(file:TFile, blog_id:number) {
-		try {
-			const response = await this.apiClient.fetchWithAuth(`/blog/${blog_id}`);
-			if (!response.ok) {
-				console.error(`블로그 가져오기 실패.`);
-				return;
+	async getSuggestions(context: EditorSuggestContext): Promise<string[]> {
+		const query = context.query.toLowerCase();
+		const tags = await this.plugin.getBlogTagSuggestions(context.file);
+		// 입력한 글자로 시작하는 태그를 먼저 보여준다.
+		return tags
+			.filter((tag) => tag !== context.query && tag.toLowerCase().includes(query))
+			.sort((a, b) =>
+				Number(!a.toLowerCase().startsWith(query)) - Number(!b.toLowerCase().startsWith(query)) || a.localeCompare(b)
+			);
+	}
+
+	renderSuggestion(tag: string, el: HTMLElement) {
+		el.setText(tag);
+	}
+
+	selectSuggestion(tag: string) {
+		if (this.context) {
+			this.context.editor.replaceRange(tag, this.context.start, this.context.end);
+		}
+		this.close();
+	}
+
+	private isInFrontMatter(editor: Editor, lineNumber: number): boolean {
+		if (editor.getLine(0) !== "---") {
+			return false;
+		}
+		for (let i = 1; i < editor.lineCount(); i++) {
+			if (editor.getLine(i) === "---") {
+				return lineNumber > 0 && lineNumber < i;
 			}
-			const blog = await response.json();
-			const new_metadata = new BlogMetadata(blog);
-			const now = new Date().toISOString();
-			new_metadata.last_synced = now;
-			const frontMatter = new_metadata.getFrontMatter();
-			
-			// 페이지 내용 추가
-			const content = frontMatter + (blog.content ?? "No content available.");
-	
-			// 파일 변경
-			if(file.parent) {
-				const folderPath = sanitizeFileName(blog.title);
-				await this.app.vault.rename(file, `${file.parent.name}/${folderPath}.md`);
-				await this.app.vault.modify(file, content);
-				await addBlogIconToFile(`${file.parent.name}/${folderPath}.md`, blog);
+		}
+		return false;
+	}
+
+	// 윗줄을 거슬러 올라가며 이 목록 항목이 tags: 아래에 있는지 확인한다.
+	private isInTagsList(editor: Editor, lineNumber: number): boolean {
+		for (let i = lineNumber - 1; i > 0; i--) {
+			const line = editor.getLine(i);
+			if (!/^\s*-/.test(line)) {
+				return /^tags:\s*$/.test(line);
 			}
-			
-			new Notice("블로그를 성공적으로 가져왔습니다.");
-			
-		} catch (error) {
-			console.error(`블로그 가져오기를 실패했습니다.: ${file.path}`, error);
 		}
-	}	
+		return false;
+	}
+}
 
-	// 설정 저장
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+class ProfileSuggestModal extends FuzzySuggestModal<string> {
+	constructor(app: App, private profiles: string[], private onChoose: (profile: string) => void) {
+		super(app);
+		this.setPlaceholder("사용할 프로필을 선택해 주세요.");
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	getItems(): string[] {
+		return this.profiles;
+	}
+
+	getItemText(item: string): string {
+		return item;
+	}
+
+	onChooseItem(item: string): void {
+		this.onChoose(item);
+	}
+}
+
+class PageMoveModal extends FuzzySuggestModal<TFile | null> {
+	constructor(app: App, private pages: TFile[], private onChoose: (target: TFile | null) => void) {
+		super(app);
+		this.setPlaceholder("이동할 위치의 상위 페이지를 선택해 주세요.");
+	}
+
+	getItems(): (TFile | null)[] {
+		return [null, ...this.pages];
+	}
+
+	getItemText(item: TFile | null): string {
+		return item ? item.path.replace(/\.md$/, "") : "(최상위)";
+	}
+
+	onChooseItem(item: TFile | null): void {
+		this.onChoose(item);
+	}
+}
+
+// API Base URL의 문제 (없으면 빈 문자열)
+function getBaseUrlWarning(baseUrl: string): string {
+	let url: URL;
+	try {
+		url = new URL(baseUrl);
+	} catch (error) {
+		return "⚠️ 올바른 URL이 아닙니다.";
+	}
+	if (url.protocol !== "https:") {
+		return "⚠️ HTTPS가 아닌 주소로는 API 토큰이 암호화되지 않은 채 전송됩니다.";
 	}
+	return "";
 }
 
 class WikiDocsPluginSettingTab extends PluginSettingTab {
@@ -739,15 +3129,70 @@ class WikiDocsPluginSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
+		// 계정 프로필
 		new Setting(containerEl)
-			.setName("API Base URL")
-			.setDesc("API의 기본 URL을 설정합니다.")
-			.addText((text) => {
+			.setName("계정 프로필")
+			.setDesc("위키독스 계정(서버 주소와 API 토큰)마다 프로필을 만듭니다. 책과 블로그는 가져올 때 선택한 프로필에 연결되고, 이후 요청은 모두 그 프로필로 보냅니다.")
+			.setHeading();
+
+		const profiles = this.plugin.settings.profiles;
+		for (const profile of profiles) {
+			const isDefault = profile.name === this.plugin.settings.defaultProfile;
+			new Setting(containerEl)
+				.setName(isDefault ? `${profile.name} (기본)` : profile.name)
+				.setDesc(isDefault ? "프로필이 연결되지 않은 책과 블로그도 이 프로필을 사용합니다." : "")
+				.addExtraButton((button) => {
+					button
+						.setIcon("star")
+						.setTooltip("기본 프로필로 지정")
+						.setDisabled(isDefault)
+						.onClick(async () => {
+							this.plugin.settings.defaultProfile = profile.name;
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("프로필 삭제")
+						.setDisabled(profiles.length <= 1)
+						.onClick(async () => {
+							const bound = this.app.vault.getMarkdownFiles().filter((file) =>
+								(file.name === "metadata.md" || file.name === "blog_metadata.md") &&
+								this.app.metadataCache.getFileCache(file)?.frontmatter?.profile === profile.name
+							);
+							const confirmed = await showConfirmationDialog(
+								`"${profile.name}" 프로필을 삭제하시겠습니까?` +
+								(bound.length > 0 ? `\n이 프로필에 연결된 책과 블로그 ${bound.length}개는 같은 이름의 프로필을 다시 추가할 때까지 동기화할 수 없습니다.` : "")
+							);
+							if (!confirmed) {
+								return;
+							}
+							this.plugin.settings.profiles = profiles.filter((item) => item !== profile);
+							if (isDefault) {
+								this.plugin.settings.defaultProfile = this.plugin.settings.profiles[0].name;
+							}
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+
+			const baseUrlSetting = new Setting(containerEl)
+				.setName("API Base URL")
+				.setDesc("API의 기본 URL을 설정합니다.");
+			const warningEl = baseUrlSetting.descEl.createDiv({ cls: "wikidocs-setting-warning" });
+			const updateWarning = () => {
+				warningEl.setText(getBaseUrlWarning(profile.apiBaseUrl));
+			};
+			updateWarning();
+			baseUrlSetting.addText((text) => {
 				text
-					.setPlaceholder("https://wikidocs.net/napi")
-					.setValue(this.plugin.settings.apiBaseUrl)
+					.setPlaceholder(DEFAULT_API_BASE_URL)
+					.setValue(profile.apiBaseUrl)
 					.onChange(async (value) => {
-						this.plugin.settings.apiBaseUrl = value;
+						profile.apiBaseUrl = value.trim();
+						updateWarning();
 						await this.plugin.saveSettings();
 					});
 
@@ -755,21 +3200,253 @@ class WikiDocsPluginSettingTab extends PluginSettingTab {
 				text.inputEl.classList.add("plugin-setting-input");
 			});
 
+			let tokenInputEl: HTMLInputElement | null = null;
+			new Setting(containerEl)
+				.setName("API Token")
+				.setDesc("API 인증 토큰을 입력합니다.")
+				.addText((text) => {
+					text
+						.setPlaceholder("위키독스에서 발급한 토큰을 입력해 주세요.")
+						.setValue(profile.apiToken)
+						.onChange(async (value) => {
+							profile.apiToken = value.trim();
+							await this.plugin.saveSettings();
+						});
+
+					// 토큰은 가려서 표시한다.
+					tokenInputEl = text.inputEl;
+					tokenInputEl.type = "password";
+					tokenInputEl.classList.add("plugin-setting-input");
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon("eye")
+						.setTooltip("토큰 보기")
+						.onClick(() => {
+							if (tokenInputEl) {
+								tokenInputEl.type = tokenInputEl.type === "password" ? "text" : "password";
+							}
+						});
+				});
+
+			const testSetting = new Setting(containerEl)
+				.setName("연결 테스트")
+				.setDesc("이 프로필의 주소와 토큰으로 위키독스에 연결해 봅니다.");
+			testSetting.addButton((button) => {
+				button
+					.setButtonText("연결 테스트")
+					.onClick(async () => {
+						button.setDisabled(true);
+						testSetting.setDesc("연결하는 중…");
+						try {
+							const info = await this.plugin.apiClient.withProfile(profile.name).testConnection();
+							const message = `연결되었습니다.\n계정: ${info.account.username}\n` +
+								(info.blog ? `블로그: ${info.blog.name} (${info.blog.url})\n` : "블로그: 없음\n") +
+								`책: ${info.bookCount}권`;
+							testSetting.setDesc(message);
+							new Notice(`"${profile.name}" 프로필: ${message}`);
+						} catch (error) {
+							console.error(`Connection test failed for profile "${profile.name}"`, error);
+							const message = getErrorMessage(error, "연결하지 못했습니다.");
+							testSetting.setDesc(message);
+							new Notice(`"${profile.name}" 프로필: ${message}`);
+						} finally {
+							button.setDisabled(false);
+						}
+					});
+			});
+			testSetting.descEl.addClass("wikidocs-setting-result");
+		}
+
+		let newProfileName = "";
+		new Setting(containerEl)
+			.setName("프로필 추가")
+			.setDesc("프로필 이름은 책과 블로그의 metadata에 기록되므로 나중에 바꿀 수 없습니다.")
+			.addText((text) => {
+				text
+					.setPlaceholder("예: 회사")
+					.onChange((value) => {
+						newProfileName = value.trim();
+					});
+			})
+			.addButton((button) => {
+				button
+					.setButtonText("추가")
+					.onClick(async () => {
+						if (!newProfileName) {
+							new Notice("프로필 이름을 입력해 주세요.");
+							return;
+						}
+						if (profiles.some((profile) => profile.name === newProfileName)) {
+							new Notice("같은 이름의 프로필이 이미 있습니다.");
+							return;
+						}
+						profiles.push({ name: newProfileName, apiBaseUrl: DEFAULT_API_BASE_URL, apiToken: "" });
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		// 일반 설정
 		new Setting(containerEl)
-			.setName("API Token")
-			.setDesc("API 인증 토큰을 입력합니다.")
+			.setName("일반")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("첨부파일 폴더")
+			.setDesc("책을 내려받을 때 위키독스 이미지를 저장할 폴더입니다. 책 폴더 기준의 상대 경로입니다.")
 			.addText((text) => {
 				text
-					.setPlaceholder("위키독스에서 발급한 토큰을 입력해 주세요.")
-					.setValue(this.plugin.settings.apiToken)
+					.setPlaceholder("images")
+					.setValue(this.plugin.settings.attachmentFolder)
 					.onChange(async (value) => {
-						this.plugin.settings.apiToken = value;
+						this.plugin.settings.attachmentFolder = value.trim() || DEFAULT_SETTINGS.attachmentFolder;
 						await this.plugin.saveSettings();
 					});
 
 				// 클래스 추가
 				text.inputEl.classList.add("plugin-setting-input");
 			});
+
+		new Setting(containerEl)
+			.setName("요청 제한 시간")
+			.setDesc("위키독스 서버의 응답을 기다리는 최대 시간(초)입니다.")
+			.addText((text) => {
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.requestTimeout))
+					.setValue(String(this.plugin.settings.requestTimeout))
+					.onChange(async (value) => {
+						const timeout = Number(value);
+						this.plugin.settings.requestTimeout = timeout > 0 ? timeout : DEFAULT_SETTINGS.requestTimeout;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		new Setting(containerEl)
+			.setName("재시도 횟수")
+			.setDesc("연결 오류나 일시적인 서버 오류가 나면 잠시 기다렸다가 다시 시도합니다. 기다리는 시간은 시도할 때마다 두 배로 늘어납니다.")
+			.addSlider((slider) => {
+				slider
+					.setLimits(0, 5, 1)
+					.setValue(this.plugin.settings.maxRetries)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxRetries = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("공개 여부 바로 보내기")
+			.setDesc("페이지를 공개나 비공개로 바꾸면 공개 여부만 바로 위키독스에 보냅니다. 끄면 다음 '위키독스 보내기'에서 전송됩니다.")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.sendVisibilityNow)
+					.onChange(async (value) => {
+						this.plugin.settings.sendVisibilityNow = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// 자동 동기화
+		new Setting(containerEl)
+			.setName("자동 동기화")
+			.setDesc("선택한 책을 주기적으로 내려받고, 편집을 멈추면 변경된 페이지를 보냅니다. 서버에서도 바뀐 페이지는 자동으로 보내지 않고 병합해서 받습니다. 삭제한 페이지는 '위키독스 보내기'에서 확인한 뒤에만 서버에서 삭제됩니다.")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("내려받기 주기")
+			.setDesc("자동으로 내려받는 주기(분)입니다.")
+			.addText((text) => {
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.autoSyncInterval))
+					.setValue(String(this.plugin.settings.autoSyncInterval))
+					.onChange(async (value) => {
+						const interval = Number(value);
+						this.plugin.settings.autoSyncInterval = interval > 0 ? interval : DEFAULT_SETTINGS.autoSyncInterval;
+						await this.plugin.saveSettings();
+						this.plugin.startAutoSync();
+					});
+				text.inputEl.type = "number";
+			});
+
+		new Setting(containerEl)
+			.setName("보내기 대기 시간")
+			.setDesc("마지막으로 편집한 뒤 이 시간(초) 동안 더 편집하지 않으면 변경된 페이지를 보냅니다.")
+			.addText((text) => {
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.autoPushDelay))
+					.setValue(String(this.plugin.settings.autoPushDelay))
+					.onChange(async (value) => {
+						const delay = Number(value);
+						this.plugin.settings.autoPushDelay = delay > 0 ? delay : DEFAULT_SETTINGS.autoPushDelay;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		const bookFolders = getBookFolders();
+		if (bookFolders.length === 0) {
+			containerEl.createEl("p", { text: "내려받은 책이 없습니다.", cls: "setting-item-description" });
+		}
+		for (const folder of bookFolders) {
+			const metadataFile = this.app.vault.getAbstractFileByPath(`${folder.path}/metadata.md`);
+			const bookId = Number(metadataFile instanceof TFile ? this.app.metadataCache.getFileCache(metadataFile)?.frontmatter?.id : NaN);
+			if (!(bookId > 0)) {
+				continue;
+			}
+			new Setting(containerEl)
+				.setName(folder.name)
+				.setDesc(folder.path)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.autoSyncBooks.includes(bookId))
+						.onChange(async (value) => {
+							const books = this.plugin.settings.autoSyncBooks.filter((id) => id !== bookId);
+							this.plugin.settings.autoSyncBooks = value ? [...books, bookId] : books;
+							await this.plugin.saveSettings();
+							this.plugin.startAutoSync();
+						});
+				});
+		}
+
+		// 블로그
+		new Setting(containerEl)
+			.setName("블로그")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("본문 태그 보내기")
+			.setDesc("블로그 글을 보낼 때 본문의 #태그를 Front Matter의 tags에 더해서 보냅니다.")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.blogInlineTags)
+					.onChange(async (value) => {
+						this.plugin.settings.blogInlineTags = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// 마크다운 변환 규칙
+		new Setting(containerEl)
+			.setName("마크다운 변환")
+			.setDesc("페이지를 보낼 때 Obsidian 전용 문법을 위키독스에서 보이는 형식으로 바꿉니다. 내려받을 때는 가능한 규칙을 되돌립니다.")
+			.setHeading();
+
+		for (const rule of CONVERSION_RULES) {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(rule.description)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.conversionRules[rule.id] ?? rule.defaultEnabled)
+						.onChange(async (value) => {
+							this.plugin.settings.conversionRules[rule.id] = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
 	}
 }
 
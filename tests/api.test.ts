@@ -0,0 +1,110 @@
+import { ApiClient } from "../lib/api";
+import { DEFAULT_SETTINGS, WikiDocsPluginSettings } from "../lib/config";
+import { WikiDocsAuthError, WikiDocsNetworkError, WikiDocsRateLimitError, WikiDocsServerError } from "../lib/errors";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+
+describe("ApiClient 재시도와 제한 시간", () => {
+    let server: FakeWikiDocsServer;
+    let settings: WikiDocsPluginSettings;
+    let client: ApiClient;
+
+    // 백오프 대기를 기다리지 않고 요청을 끝까지 실행한다.
+    const run = async <T>(promise: Promise<T>): Promise<T> => {
+        promise.catch(() => {});
+        await jest.runAllTimersAsync();
+        return promise;
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        server = new FakeWikiDocsServer({ token: "test" });
+        settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+        settings.profiles[0].apiToken = "test";
+        client = new ApiClient(settings, server);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    test("조회 요청은 일시적인 서버 오류 뒤에 다시 시도한다", async () => {
+        server.addBook({ subject: "책" });
+        server.failNextRequests(2, 503);
+
+        const books = await run(client.requestJson<unknown[]>("/books/"));
+
+        expect(books).toHaveLength(1);
+        expect(server.requests).toHaveLength(3);
+    });
+
+    test("maxRetries번 다시 시도해도 실패하면 오류를 던진다", async () => {
+        server.failNextRequests(10, 502);
+
+        await expect(run(client.requestJson("/books/"))).rejects.toBeInstanceOf(WikiDocsServerError);
+        expect(server.requests).toHaveLength(settings.maxRetries + 1);
+    });
+
+    test("생성 요청은 서버가 처리했을 수 있는 오류 뒤에 다시 보내지 않는다", async () => {
+        server.failNextRequests(1, 502);
+
+        const request = client.requestJson("/books/", { method: "POST", body: JSON.stringify({ subject: "책" }) });
+
+        await expect(run(request)).rejects.toBeInstanceOf(WikiDocsServerError);
+        expect(server.requests).toHaveLength(1);
+        expect(server.books.size).toBe(0);
+    });
+
+    test("생성 요청도 Retry-After가 있는 429 뒤에는 그 시간만큼 기다렸다가 다시 보낸다", async () => {
+        server.failNextRequests(1, 429, "", { "retry-after": "5" });
+
+        const request = client.requestJson("/books/", { method: "POST", body: JSON.stringify({ subject: "책" }) });
+        await jest.advanceTimersByTimeAsync(4900);
+        expect(server.requests).toHaveLength(1);
+        await jest.advanceTimersByTimeAsync(100);
+
+        await expect(request).resolves.toMatchObject({ subject: "책" });
+        expect(server.books.size).toBe(1);
+    });
+
+    test("다시 시도하지 않으면 429는 WikiDocsRateLimitError로 던진다", async () => {
+        settings.maxRetries = 0;
+        server.failNextRequests(1, 429, "", { "retry-after": "5" });
+
+        const request = run(client.requestJson("/books/"));
+
+        await expect(request).rejects.toBeInstanceOf(WikiDocsRateLimitError);
+        await expect(request).rejects.toMatchObject({ retryAfter: 5 });
+    });
+
+    test("제한 시간 안에 응답이 없으면 다시 시도하고, 끝내 없으면 WikiDocsNetworkError를 던진다", async () => {
+        const hanging = new ApiClient(settings, { request: () => new Promise(() => {}) });
+        settings.requestTimeout = 1;
+
+        const request = run(hanging.requestJson("/books/"));
+
+        await expect(request).rejects.toBeInstanceOf(WikiDocsNetworkError);
+        await expect(request).rejects.toMatchObject({ timedOut: true });
+        expect(console.warn).toHaveBeenCalledTimes(settings.maxRetries);
+    });
+});
+
+describe("ApiClient 연결 테스트", () => {
+    test("testConnection은 인증된 계정, 블로그, 책 수를 반환한다", async () => {
+        const server = new FakeWikiDocsServer({ token: "test" });
+        server.account = { id: 7, username: "wikidocs-user" };
+        server.addBook({ subject: "책" });
+        const settings: WikiDocsPluginSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+        settings.profiles[0].apiToken = "test";
+
+        await expect(new ApiClient(settings, server).testConnection()).resolves.toEqual({
+            account: { id: 7, username: "wikidocs-user" },
+            bookCount: 1,
+            blog: server.profile,
+        });
+
+        settings.profiles[0].apiToken = "wrong";
+        await expect(new ApiClient(settings, server).testConnection()).rejects.toBeInstanceOf(WikiDocsAuthError);
+    });
+});
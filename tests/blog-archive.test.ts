@@ -0,0 +1,77 @@
+import { App } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { createPlugin, getFile, getFolder, getFrontMatter } from "./helpers";
+
+describe("블로그 전체 내려받기", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+    let blogIds: number[];
+
+    // 2026-01-01부터 하루에 한 글씩, 목록 두 쪽(10개씩)에 걸친 12개의 글
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        blogIds = [];
+        for (let day = 1; day <= 12; day++) {
+            blogIds.push(server.addBlog({
+                title: `글 ${day}`,
+                content: `${day}일의 글`,
+                is_public: day % 3 !== 0,
+                created_at: `2026-01-${String(day).padStart(2, "0")}T09:00:00`,
+            }));
+        }
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await app.vault.create("Fake Blog/blog_metadata.md", "---\nid: 1\nname: Fake Blog\n---\n");
+    });
+
+    // 글 하나를 가져온 요청 수
+    const countPostRequests = () => server.requests.filter((request) => /\/blog\/\d+$/.test(request.url)).length;
+
+    test("목록의 모든 쪽을 읽어 모든 글을 내려받는다", async () => {
+        await plugin.downloadBlogArchive(getFolder(app, "Fake Blog"), { visibility: "all", from: "", to: "" });
+
+        for (const [index, id] of blogIds.entries()) {
+            const file = getFile(app, `Fake Blog/글 ${index + 1}.md`);
+            expect(getFrontMatter(app, file)).toMatchObject({ id, is_public: (index + 1) % 3 !== 0 });
+            expect(await app.vault.read(file)).toMatch(new RegExp(`${index + 1}일의 글$`));
+        }
+    });
+
+    test("공개 여부와 작성일로 고른 글만 내려받고, 시작일보다 오래된 글이 나오면 멈춘다", async () => {
+        await plugin.downloadBlogArchive(getFolder(app, "Fake Blog"), { visibility: "public", from: "2026-01-04", to: "2026-01-08" });
+
+        const titles = getFolder(app, "Fake Blog").children.map((file) => file.name).sort();
+        expect(titles).toEqual(["blog_metadata.md", "글 4.md", "글 5.md", "글 7.md", "글 8.md"]);
+        // 공개 글 11, 10, 8, 7, 5, 4, 2, 1 중에서 2일의 글을 읽은 뒤 멈춘다.
+        expect(countPostRequests()).toBe(7);
+    });
+
+    test("보내지 않은 수정이 있는 글은 건너뛰고, 나머지 글은 갱신한다", async () => {
+        await plugin.downloadBlogArchive(getFolder(app, "Fake Blog"), { visibility: "all", from: "2026-01-11", to: "" });
+        const modified = getFile(app, "Fake Blog/글 11.md");
+        await app.vault.modify(modified, (await app.vault.read(modified)).replace("11일의 글", "로컬에서 고친 글"));
+        for (const id of blogIds.slice(10)) {
+            const blog = server.blogs.get(id);
+            if (blog) {
+                blog.content = "서버에서 고친 글";
+            }
+        }
+
+        await plugin.downloadBlogArchive(getFolder(app, "Fake Blog"), { visibility: "all", from: "2026-01-11", to: "" });
+
+        expect(await app.vault.read(modified)).toMatch(/로컬에서 고친 글$/);
+        expect(await app.vault.read(getFile(app, "Fake Blog/글 12.md"))).toMatch(/서버에서 고친 글$/);
+    });
+
+    test("같은 제목의 다른 글이 있으면 파일 이름에 id를 붙인다", async () => {
+        await app.vault.create("Fake Blog/글 12.md", "보내지 않은 글");
+
+        await plugin.downloadBlogArchive(getFolder(app, "Fake Blog"), { visibility: "all", from: "2026-01-12", to: "" });
+
+        expect(await app.vault.read(getFile(app, "Fake Blog/글 12.md"))).toBe("보내지 않은 글");
+        expect(getFrontMatter(app, getFile(app, `Fake Blog/글 12 (${blogIds[11]}).md`)).id).toBe(blogIds[11]);
+    });
+});
@@ -0,0 +1,109 @@
+import { App } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { ApiClient } from "../lib/api";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { getBlogPostChange } from "../lib/md";
+import { createPlugin, flushPromises, getFile, getFolder, getFrontMatter } from "./helpers";
+import { Notice } from "./obsidian";
+
+describe("블로그 보내기", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await app.vault.create("Fake Blog/blog_metadata.md", "---\nid: 1\nname: Fake Blog\n---\n");
+    });
+
+    test("blog_post는 Front Matter가 없는 글을 새 글로 만들고 id를 기록한다", async () => {
+        const file = await app.vault.create("Fake Blog/첫 글.md", "본문 ==강조==");
+
+        await plugin.blog_post(file);
+        await flushPromises();
+
+        expect(server.blogs.size).toBe(1);
+        const [blog] = server.blogs.values();
+        expect(blog).toMatchObject({ title: "첫 글", content: "본문 <mark>강조</mark>", is_public: true, tags: [] });
+        expect(getFrontMatter(app, getFile(app, "Fake Blog/첫 글.md"))).toMatchObject({ id: blog.id, is_public: true });
+    });
+
+    test("blog_post는 보낸 글의 태그와 공개 여부를 보내고, 사용자가 추가한 키는 유지한다", async () => {
+        const blogId = server.addBlog({ title: "글", content: "예전 본문", tags: ["old"] });
+        const file = await app.vault.create(
+            "Fake Blog/글.md",
+            `---\nid: ${blogId}\ntags:\n  - 새 태그\n  - old\nis_public: false\naliases:\n  - 별칭\n---\n새 본문`
+        );
+
+        await plugin.blog_post(file);
+        await flushPromises();
+
+        expect(server.blogs.get(blogId)).toMatchObject({ title: "글", content: "새 본문", tags: ["새 태그", "old"], is_public: false });
+        const frontMatter = getFrontMatter(app, getFile(app, "Fake Blog/글.md"));
+        expect(frontMatter).toMatchObject({ id: blogId, tags: ["새 태그", "old"], is_public: false, aliases: ["별칭"] });
+        expect(frontMatter.last_synced).toBeTruthy();
+    });
+
+    test("글을 만든 뒤 이미지 업로드가 실패해도 id를 기록해서 다시 보낼 때 새 글을 또 만들지 않는다", async () => {
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        jest.spyOn(ApiClient.prototype, "uploadImagesForBlog").mockRejectedValueOnce(new Error("upload failed"));
+        await app.vault.createBinary("Fake Blog/images/그림.png", new TextEncoder().encode("png").buffer);
+        const file = await app.vault.create("Fake Blog/글.md", "본문 ![[그림.png]]");
+
+        await plugin.blog_post(file);
+        await flushPromises();
+
+        expect(server.blogs.size).toBe(1);
+        const [blog] = server.blogs.values();
+        expect(getFrontMatter(app, file).id).toBe(blog.id);
+
+        await plugin.syncBlogToServer(getFolder(app, "Fake Blog"));
+        await flushPromises();
+
+        expect(server.blogs.size).toBe(1);
+        expect(server.blogs.get(blog.id)?.content).toMatch(/^본문 !\[그림\]\(https:\/\/wikidocs\.test\/images\/blog\//);
+    });
+
+    test("보내거나 내려받은 뒤 제목, 본문, 태그, 공개 여부가 바뀐 글만 수정된 글로 본다", async () => {
+        const file = await app.vault.create("Fake Blog/글.md", "본문");
+        await plugin.blog_post(file);
+        await flushPromises();
+        expect(getFrontMatter(app, file).hash).toBeTruthy();
+        expect(await getBlogPostChange(file)).toBeNull();
+
+        // 내용이 같으면 다시 저장해도 수정되지 않은 글이다.
+        await app.vault.modify(file, await app.vault.read(file));
+        expect(await getBlogPostChange(file)).toBeNull();
+
+        await app.fileManager.processFrontMatter(file, (frontMatter) => {
+            frontMatter["tags"] = ["새 태그"];
+        });
+        expect(await getBlogPostChange(file)).toBe("modified");
+
+        await plugin.pullBlogPost(file, Number(getFrontMatter(app, file).id));
+        expect(await getBlogPostChange(file)).toBeNull();
+
+        await app.vault.modify(file, (await app.vault.read(file)).replace("본문", "고친 본문"));
+        expect(await getBlogPostChange(file)).toBe("modified");
+    });
+
+    test("보내지 못하면 알리고 서버에 글을 만들지 않는다", async () => {
+        const file = await app.vault.create("Fake Blog/글.md", "본문");
+        plugin.settings.profiles[0].apiToken = "wrong";
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        Notice.messages = [];
+
+        await plugin.blog_post(file);
+
+        expect(Notice.messages.length).toBe(1);
+        expect(server.blogs.size).toBe(0);
+        expect(getFrontMatter(app, file).id).toBe(-1);
+    });
+});
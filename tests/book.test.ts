@@ -0,0 +1,126 @@
+import { App } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { ApiClient } from "../lib/api";
+import { FAKE_ORIGIN, FakeWikiDocsServer } from "../lib/fake-server";
+import { getFile, getFolder, getFrontMatter, createPlugin } from "./helpers";
+
+describe("책 동기화", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+    let bookId: number;
+    let chapterId: number;
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        bookId = server.addBook({ subject: "책" });
+        chapterId = server.addPage({ book_id: bookId, subject: "1장", content: "첫 문단\n\n==강조==" });
+        server.addPage({ book_id: bookId, parent_id: chapterId, subject: "1-1", content: "하위 페이지" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await plugin.downloadBook(bookId, "기본");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("downloadBook은 책 폴더, metadata.md, 페이지 트리를 만든다", async () => {
+        expect(getFrontMatter(app, getFile(app, "책/metadata.md")).id).toBe(bookId);
+
+        const chapter = getFile(app, "책/1장.md");
+        expect(getFrontMatter(app, chapter)).toMatchObject({ id: chapterId, subject: "1장" });
+        // 변환 규칙으로 <mark>가 아닌 ==강조==로 남는다.
+        expect(await app.vault.read(chapter)).toMatch(/---\n첫 문단\n\n==강조==$/);
+        expect(await app.vault.read(getFile(app, "책/1장/1-1.md"))).toMatch(/하위 페이지$/);
+
+        expect(plugin.syncIndex.getPage(bookId, chapterId)).toMatchObject({ path: "책/1장.md", parent_id: -1 });
+        expect(plugin.lastSyncError).toBeNull();
+    });
+
+    test("syncToServer는 수정한 페이지와 새 페이지, 이미지를 보낸다", async () => {
+        const chapter = getFile(app, "책/1장.md");
+        await app.vault.modify(chapter, (await app.vault.read(chapter)).replace("첫 문단", "고친 문단 ![[그림.png]]"));
+        await app.vault.createBinary("책/images/그림.png", new TextEncoder().encode("png").buffer);
+        await app.vault.create("책/2장.md", "새 페이지");
+
+        await plugin.syncToServer(getFolder(app, "책"), { auto: true });
+
+        expect(plugin.lastSyncError).toBeNull();
+        const sent = server.pages.get(chapterId);
+        expect(sent?.content).toContain("고친 문단");
+        expect(sent?.content).toContain("<mark>강조</mark>");
+        expect(sent?.content).toMatch(new RegExp(`!\\[그림\\]\\(${FAKE_ORIGIN}/images/page/${chapterId}/`));
+        expect(server.images.size).toBe(1);
+
+        const created = [...server.pages.values()].find((page) => page.subject === "2장");
+        expect(created).toMatchObject({ book_id: bookId, parent_id: -1, content: "새 페이지" });
+        // 새 페이지는 만든 id가 Front Matter와 동기화 인덱스에 기록된다.
+        expect(getFrontMatter(app, getFile(app, "책/2장.md")).id).toBe(created?.id);
+        expect(plugin.syncIndex.getPage(bookId, created?.id ?? -1)?.path).toBe("책/2장.md");
+    });
+
+    test("새 페이지를 만든 뒤 이미지 업로드가 실패해도 다시 보낼 때 중복으로 만들지 않는다", async () => {
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        jest.spyOn(ApiClient.prototype, "uploadImagesForPage").mockRejectedValueOnce(new Error("upload failed"));
+        await app.vault.createBinary("책/images/그림.png", new TextEncoder().encode("png").buffer);
+        await app.vault.create("책/2장.md", "새 페이지 %%주석%% ![[그림.png]]");
+
+        await plugin.syncToServer(getFolder(app, "책"), { auto: true });
+
+        const created = [...server.pages.values()].find((page) => page.subject === "2장");
+        // 처음 만들 때도 변환 규칙을 적용해서 보낸다.
+        expect(created?.content).toBe("새 페이지  ![[그림.png]]");
+        expect(getFrontMatter(app, getFile(app, "책/2장.md")).id).toBe(created?.id);
+        expect(plugin.syncIndex.getPage(bookId, created?.id ?? -1)?.path).toBe("책/2장.md");
+
+        await plugin.syncToServer(getFolder(app, "책"), { auto: true });
+
+        expect([...server.pages.values()].filter((page) => page.subject === "2장")).toHaveLength(1);
+        expect(server.pages.get(created?.id ?? -1)?.content).toMatch(/^새 페이지 {2}!\[그림\]\(https:\/\/wikidocs\.test\/images\/page\//);
+    });
+
+    test("서버 변경과 로컬 변경을 병합해서 내려받는다", async () => {
+        const chapter = getFile(app, "책/1장.md");
+        await app.vault.modify(chapter, (await app.vault.read(chapter)).replace("첫 문단", "로컬 문단"));
+        const page = server.pages.get(chapterId);
+        if (page) {
+            page.content += "\n\n서버 문단";
+        }
+
+        await plugin.syncFromServer(getFolder(app, "책"));
+
+        expect(await app.vault.read(chapter)).toMatch(/로컬 문단\n\n==강조==\n\n서버 문단$/);
+    });
+
+    test("내려받은 이미지를 첨부파일 폴더에 저장하고 설정은 한 번만 저장한다", async () => {
+        const page = server.pages.get(chapterId);
+        for (const name of ["a.png", "b.png"]) {
+            const url = `https://wikidocs.net/images/page/${chapterId}/${name}`;
+            server.images.set(url, { url, fileName: name, data: new TextEncoder().encode(name).buffer });
+            if (page) {
+                page.content += `\n\n![${name}](${url})`;
+            }
+        }
+        const saveData = jest.spyOn(plugin, "saveData");
+
+        await plugin.syncFromServer(getFolder(app, "책"));
+
+        expect(saveData).toHaveBeenCalledTimes(1);
+        expect(Object.keys(plugin.settings.remoteImages).sort()).toEqual(["책/images/a.png", "책/images/b.png"]);
+        expect(await app.vault.read(getFile(app, "책/1장.md"))).toMatch(/==강조==\n\n!\[\[a\.png\]\]\n\n!\[\[b\.png\]\]$/);
+    });
+
+    test("base가 없는 페이지(이전 버전에서 내려받은 책)는 로컬 변경을 충돌로 남긴다", async () => {
+        const chapter = getFile(app, "책/1장.md");
+        await app.vault.modify(chapter, (await app.vault.read(chapter)).replace("첫 문단", "로컬 문단"));
+        await app.vault.adapter.remove(`${app.vault.configDir}/plugins/wikidocs/base/${bookId}/${chapterId}.md`);
+
+        await plugin.syncFromServer(getFolder(app, "책"));
+
+        expect(await app.vault.read(chapter)).toMatch(
+            /<<<<<<< Obsidian\n로컬 문단\n\n==강조==\n=======\n첫 문단\n\n==강조==\n>>>>>>> WikiDocs$/
+        );
+    });
+});
@@ -0,0 +1,87 @@
+import { App, TFile } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { ConflictResolution, PageChange } from "../lib/md";
+import { createPlugin, getFile, getFolder } from "./helpers";
+
+describe("서버에서도 바뀐 페이지 보내기", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+    let chapterId: number;
+    let chapter: TFile;
+
+    // 미리보기에서 모든 변경을 고르고, 서버에서도 바뀐 페이지는 resolution으로 처리한다.
+    const choose = (resolution: ConflictResolution) =>
+        jest.spyOn(plugin, "promptForSyncPreview").mockImplementation(async (folder, changes: PageChange[]) => ({
+            changes: changes.filter((change) => !change.serverChanged || resolution === "overwrite"),
+            sendSettings: false,
+            resolutions: new Map(changes.filter((change) => change.serverChanged).map((change) => [change, resolution])),
+        }));
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        const bookId = server.addBook({ subject: "책" });
+        chapterId = server.addPage({ book_id: bookId, subject: "1장", content: "첫째 줄\n둘째 줄\n셋째 줄" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await plugin.downloadBook(bookId, "기본");
+
+        chapter = getFile(app, "책/1장.md");
+        await app.vault.modify(chapter, (await app.vault.read(chapter)).replace("첫째 줄", "로컬 첫째 줄"));
+        const page = server.pages.get(chapterId);
+        if (page) {
+            page.content = page.content.replace("셋째 줄", "서버 셋째 줄");
+        }
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("미리보기에 서버에서 바뀐 페이지로 표시한다", async () => {
+        const prompt = jest.spyOn(plugin, "promptForSyncPreview").mockResolvedValue(null);
+
+        await plugin.syncToServer(getFolder(app, "책"));
+
+        const changes = prompt.mock.calls[0][1];
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({ kinds: ["modified"], serverChanged: true });
+    });
+
+    test("자동 동기화는 서버에서도 바뀐 페이지를 보내지 않고 내려받기에서 병합한다", async () => {
+        await plugin.syncToServer(getFolder(app, "책"), { auto: true });
+        expect(server.pages.get(chapterId)?.content).toBe("첫째 줄\n둘째 줄\n서버 셋째 줄");
+
+        await plugin.syncFromServer(getFolder(app, "책"));
+        expect(await app.vault.read(chapter)).toMatch(/로컬 첫째 줄\n둘째 줄\n서버 셋째 줄$/);
+    });
+
+    test("덮어쓰기는 로컬 내용을 보낸다", async () => {
+        choose("overwrite");
+
+        await plugin.syncToServer(getFolder(app, "책"));
+
+        expect(server.pages.get(chapterId)?.content).toBe("로컬 첫째 줄\n둘째 줄\n셋째 줄");
+        expect(await app.vault.read(chapter)).toMatch(/로컬 첫째 줄\n둘째 줄\n셋째 줄$/);
+    });
+
+    test("서버 버전 받기는 로컬 변경을 버리고 보내지 않는다", async () => {
+        choose("pull");
+
+        await plugin.syncToServer(getFolder(app, "책"));
+
+        expect(server.pages.get(chapterId)?.content).toBe("첫째 줄\n둘째 줄\n서버 셋째 줄");
+        expect(await app.vault.read(chapter)).toMatch(/---\n첫째 줄\n둘째 줄\n서버 셋째 줄$/);
+    });
+
+    test("병합은 서버 변경을 로컬 파일에 병합하고 보내지 않는다", async () => {
+        choose("merge");
+
+        await plugin.syncToServer(getFolder(app, "책"));
+
+        expect(server.pages.get(chapterId)?.content).toBe("첫째 줄\n둘째 줄\n서버 셋째 줄");
+        expect(await app.vault.read(chapter)).toMatch(/로컬 첫째 줄\n둘째 줄\n서버 셋째 줄$/);
+    });
+});
@@ -0,0 +1,67 @@
+import { App, TFile } from "obsidian";
+
+import { convertToLocal, convertToServer } from "../lib/convert";
+import { createApp } from "./helpers";
+
+describe("변환 규칙", () => {
+    let app: App;
+    let file: TFile;
+
+    const toServer = (content: string, enabledRules: Record<string, boolean> = {}) =>
+        convertToServer(app, content, file, enabledRules);
+
+    beforeEach(async () => {
+        app = createApp();
+        file = await app.vault.create("책/페이지.md", "");
+    });
+
+    test("주석과 블록 id를 지운다", async () => {
+        expect(await toServer("앞 %%주석%% 뒤\n문장 ^abc-1")).toBe("앞  뒤\n문장");
+    });
+
+    test("하이라이트와 태그를 바꾸고 되돌린다", async () => {
+        const server = await toServer("==강조== #태그 #123");
+        expect(server).toBe("<mark>강조</mark> \\#태그 #123");
+        expect(await convertToLocal(server, {})).toBe("==강조== #태그 #123");
+    });
+
+    test("콜아웃을 제목이 있는 인용문으로 바꾸고 되돌린다", async () => {
+        const content = "> [!note]\n> 내용\n\n> [!WARNING]- 주의할 점\n> 내용";
+        const server = await toServer(content);
+        expect(server).toBe(
+            "> <!-- callout:note -->\n> **Note**\n> 내용\n\n> <!-- callout:warning- -->\n> **주의할 점**\n> 내용"
+        );
+        expect(await convertToLocal(server, {})).toBe("> [!note]\n> 내용\n\n> [!warning]- 주의할 점\n> 내용");
+    });
+
+    test("코드 블록, 수식 블록, 인라인 코드는 바꾸지 않는다", async () => {
+        const content = "```\n==그대로== %%주석%%\n```\n$$\n#x\n$$\n`==코드==` ==강조==";
+        expect(await toServer(content)).toBe("```\n==그대로== %%주석%%\n```\n$$\n#x\n$$\n`==코드==` <mark>강조</mark>");
+    });
+
+    test("노트 삽입은 다른 노트의 본문으로 바꾼다", async () => {
+        await app.vault.create("책/다른 노트.md", "---\nid: 3\n---\n삽입된 본문");
+        expect(await toServer("앞\n![[다른 노트]]\n뒤")).toBe("앞\n삽입된 본문\n뒤");
+        expect(await toServer("![[없는 노트]]")).toBe("![[없는 노트]]");
+    });
+
+    test("줄바꿈 규칙은 켜야 적용되고, 끄면 다른 규칙도 건너뛴다", async () => {
+        expect(await toServer("첫 줄\n둘째 줄")).toBe("첫 줄\n둘째 줄");
+        expect(await toServer("첫 줄\n둘째 줄", { "hard-breaks": true })).toBe("첫 줄  \n둘째 줄");
+        expect(await toServer("==강조==", { highlights: false })).toBe("==강조==");
+        expect(await convertToLocal("<mark>강조</mark>", { highlights: false })).toBe("<mark>강조</mark>");
+    });
+
+    test("줄바꿈 규칙은 로컬에서 공백 없이 끝나는 줄에 덧붙인 공백만 되돌린다", async () => {
+        const rules = { "hard-breaks": true };
+        const local = "첫 줄\n둘째 줄\n셋째 줄";
+        const server = await toServer(local, rules);
+        expect(server).toBe("첫 줄  \n둘째 줄  \n셋째 줄");
+        expect(await convertToLocal(server, rules, local)).toBe(local);
+
+        // 위키독스에서 작성한 강제 줄바꿈과 로컬에 없는 페이지는 그대로 둔다.
+        expect(await convertToLocal("첫 줄  \n서버에서 쓴 줄  \n끝", rules, local)).toBe("첫 줄\n서버에서 쓴 줄  \n끝");
+        expect(await convertToLocal("첫 줄  \n둘째 줄", rules, null)).toBe("첫 줄  \n둘째 줄");
+        expect(await convertToLocal("첫 줄  \n둘째 줄", rules, "첫 줄  \n둘째 줄")).toBe("첫 줄  \n둘째 줄");
+    });
+});
@@ -0,0 +1,56 @@
+import { App } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { ApiClient } from "../lib/api";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { createPlugin, getFile, getFolder, getFrontMatter } from "./helpers";
+
+describe("폴더로 새 책 만들기", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await app.vault.create("새 책/1장.md", "본문 %%주석%% ![[그림.png]]");
+        await app.vault.create("새 책/1장/1-1.md", "하위 페이지");
+        await app.vault.createBinary("새 책/images/그림.png", new TextEncoder().encode("png").buffer);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("createBookFromFolder는 책과 페이지 트리를 만들고 id를 기록한다", async () => {
+        await plugin.createBookFromFolder(getFolder(app, "새 책"), "기본");
+
+        const bookId = Number(getFrontMatter(app, getFile(app, "새 책/metadata.md")).id);
+        const chapter = [...server.pages.values()].find((page) => page.subject === "1장");
+        const section = [...server.pages.values()].find((page) => page.subject === "1-1");
+        expect(chapter).toMatchObject({ book_id: bookId, parent_id: -1 });
+        expect(chapter?.content).toMatch(/^본문 {2}!\[그림\]\(https:\/\/wikidocs\.test\/images\/page\//);
+        expect(section).toMatchObject({ book_id: bookId, parent_id: chapter?.id, content: "하위 페이지" });
+        expect(getFrontMatter(app, getFile(app, "새 책/1장.md")).id).toBe(chapter?.id);
+        expect(plugin.syncIndex.getPage(bookId, chapter?.id ?? -1)).toMatchObject({ path: "새 책/1장.md" });
+        expect(plugin.syncIndex.getPage(bookId, chapter?.id ?? -1)?.dirty).toBeUndefined();
+    });
+
+    test("페이지를 만든 뒤 이미지 업로드가 실패해도 id를 기록해서 다시 보낼 때 중복으로 만들지 않는다", async () => {
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        jest.spyOn(ApiClient.prototype, "uploadImagesForPage").mockRejectedValueOnce(new Error("upload failed"));
+
+        await plugin.createBookFromFolder(getFolder(app, "새 책"), "기본");
+
+        const chapter = [...server.pages.values()].find((page) => page.subject === "1장");
+        // 처음 만들 때도 변환 규칙을 적용해서 보낸다.
+        expect(chapter?.content).toBe("본문  ![[그림.png]]");
+        expect(getFrontMatter(app, getFile(app, "새 책/1장.md")).id).toBe(chapter?.id);
+
+        await plugin.syncToServer(getFolder(app, "새 책"), { auto: true });
+
+        expect([...server.pages.values()].filter((page) => page.subject === "1장")).toHaveLength(1);
+        expect(server.pages.get(chapter?.id ?? -1)?.content).toMatch(/!\[그림\]\(https:\/\/wikidocs\.test\/images\/page\//);
+    });
+});
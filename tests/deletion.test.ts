@@ -0,0 +1,82 @@
+import { App } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { createPlugin, getFile, getFolder } from "./helpers";
+
+describe("삭제 대기열", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+    let bookId: number;
+    let chapterId: number;
+    let sectionId: number;
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        bookId = server.addBook({ subject: "책" });
+        chapterId = server.addPage({ book_id: bookId, subject: "1장", content: "본문" });
+        sectionId = server.addPage({ book_id: bookId, parent_id: chapterId, subject: "1-1", content: "하위 페이지" });
+        server.addPage({ book_id: bookId, subject: "2장", content: "본문" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await plugin.downloadBook(bookId, "기본");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("자동 동기화는 로컬에서 삭제한 페이지를 대기열에만 넣고, 내려받기에서 다시 만들지 않는다", async () => {
+        await app.vault.delete(getFile(app, "책/1장/1-1.md"));
+
+        await plugin.syncToServer(getFolder(app, "책"), { auto: true });
+        await plugin.syncFromServer(getFolder(app, "책"));
+
+        expect(server.pages.has(sectionId)).toBe(true);
+        expect(plugin.settings.deletionQueue[bookId]).toEqual([sectionId]);
+        expect(app.vault.getAbstractFileByPath("책/1장/1-1.md")).toBeNull();
+    });
+
+    test("확인한 페이지만 서버에서 삭제한다", async () => {
+        await app.vault.delete(getFile(app, "책/1장/1-1.md"));
+        const prompt = jest.spyOn(plugin, "promptForDeletionReview").mockImplementation(async (knownPages) => ({
+            deletePages: knownPages.filter((page) => page.id === sectionId),
+            restorePages: [],
+        }));
+
+        const result = await plugin.reviewDeletedPages(getFolder(app, "책"));
+
+        expect(prompt).toHaveBeenCalledWith(expect.anything(), [sectionId], expect.any(Set));
+        expect(result).toEqual({ deleted: 1, restored: 0, pending: 0 });
+        expect(server.pages.has(sectionId)).toBe(false);
+        expect(server.pages.has(chapterId)).toBe(true);
+        expect(plugin.settings.deletionQueue[bookId]).toEqual([]);
+    });
+
+    test("복원을 고르면 대기열에서 빼고 다음 내려받기에서 다시 만든다", async () => {
+        await app.vault.delete(getFolder(app, "책/1장"));
+        await app.vault.delete(getFile(app, "책/1장.md"));
+        jest.spyOn(plugin, "promptForDeletionReview").mockImplementation(async (knownPages) => ({
+            deletePages: [],
+            restorePages: knownPages.filter((page) => page.id === chapterId || page.id === sectionId),
+        }));
+
+        const result = await plugin.reviewDeletedPages(getFolder(app, "책"));
+        await plugin.syncFromServer(getFolder(app, "책"));
+
+        expect(result).toEqual({ deleted: 0, restored: 2, pending: 0 });
+        expect(server.pages.size).toBe(3);
+        expect(await app.vault.read(getFile(app, "책/1장/1-1.md"))).toMatch(/하위 페이지$/);
+    });
+
+    test("확인하지 않고 닫으면 서버에서 삭제하지 않고 대기열에 남긴다", async () => {
+        await app.vault.delete(getFile(app, "책/1장/1-1.md"));
+        jest.spyOn(plugin, "promptForDeletionReview").mockResolvedValue(null);
+
+        const result = await plugin.reviewDeletedPages(getFolder(app, "책"));
+
+        expect(result).toEqual({ deleted: 0, restored: 0, pending: 1 });
+        expect(server.pages.has(sectionId)).toBe(true);
+    });
+});
@@ -0,0 +1,16 @@
+// 테스트 파일을 플러그인 빌드(esbuild.config.mjs)와 같은 esbuild로 CommonJS로 바꾼다.
+// lib의 함수는 this.app(전역 app)을 쓰므로 "use strict"를 붙이지 않는 esbuild를 쓴다.
+import { transformSync } from "esbuild";
+
+export default {
+	process(source, filePath) {
+		const { code, map } = transformSync(source, {
+			loader: "ts",
+			format: "cjs",
+			target: "es2018",
+			sourcefile: filePath,
+			sourcemap: true,
+		});
+		return { code, map };
+	},
+};
@@ -0,0 +1,55 @@
+import { App, TFile, TFolder } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { ApiClient } from "../lib/api";
+import { DEFAULT_SETTINGS } from "../lib/config";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { SyncIndex } from "../lib/sync-index";
+import * as stub from "./obsidian";
+
+// 메모리 vault를 쓰는 App을 만들고 전역 app으로 등록한다. (lib의 함수는 this.app을 쓴다)
+export function createApp(): App {
+    const app = new stub.App();
+    (globalThis as unknown as { app: stub.App }).app = app;
+    return app as unknown as App;
+}
+
+/**
+ * FakeWikiDocsServer와 연결된 플러그인을 만든다. onload 대신 동기화에 필요한 상태만 준비한다.
+ */
+export async function createPlugin(server: FakeWikiDocsServer): Promise<WikiDocsPlugin> {
+    const plugin = new WikiDocsPlugin(createApp(), { id: "wikidocs", name: "WikiDocs", version: "0.0.0", minAppVersion: "0.0.0", author: "", description: "" });
+    // DEFAULT_SETTINGS의 객체(syncIndex, remoteImages 등)를 테스트끼리 나눠 쓰지 않도록 복사본으로 시작한다.
+    await plugin.saveData(DEFAULT_SETTINGS);
+    await plugin.loadSettings();
+    plugin.settings.profiles[0].apiToken = server.token;
+    plugin.apiClient = new ApiClient(plugin.settings, server);
+    plugin.syncIndex = new SyncIndex(plugin.settings.syncIndex);
+    plugin.statusBarEl = plugin.addStatusBarItem();
+    return plugin;
+}
+
+export function getFile(app: App, path: string): TFile {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        throw new Error(`No file: ${path}`);
+    }
+    return file;
+}
+
+export function getFolder(app: App, path: string): TFolder {
+    const folder = app.vault.getAbstractFileByPath(path);
+    if (!(folder instanceof TFolder)) {
+        throw new Error(`No folder: ${path}`);
+    }
+    return folder;
+}
+
+export function getFrontMatter(app: App, file: TFile): Record<string, unknown> {
+    return app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+}
+
+// 기다리지 않고 시작한 작업(blog_post의 내려받기 등)이 끝나게 한다.
+export function flushPromises(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,68 @@
+import { App, TFile } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { getServerVersion } from "../lib/md";
+import { SyncedPage } from "../lib/sync-index";
+import { createPlugin, getFile } from "./helpers";
+
+describe("페이지 버전 기록", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+    let bookId: number;
+    let sectionId: number;
+    let section: TFile;
+    let syncedPage: SyncedPage;
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        bookId = server.addBook({ subject: "책" });
+        const chapterId = server.addPage({ book_id: bookId, subject: "1장", content: "" });
+        server.addPage({ book_id: bookId, parent_id: chapterId, subject: "1-0", content: "" });
+        sectionId = server.addPage({ book_id: bookId, parent_id: chapterId, subject: "1-1", content: "처음 내용" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+
+        // 서버에서 두 번 고친 뒤 내려받는다.
+        for (const content of ["두 번째 내용", "지금 내용"]) {
+            await plugin.apiClient.requestJson(`/pages/${sectionId}/`, { method: "PUT", body: JSON.stringify({ subject: "1-1", content }) });
+        }
+        await plugin.downloadBook(bookId, "기본");
+        section = getFile(app, "책/1장/1-1.md");
+        syncedPage = plugin.syncIndex.getPage(bookId, sectionId) as SyncedPage;
+    });
+
+    test("버전 목록은 최근 버전부터 반환하고, 버전 하나는 본문과 함께 반환한다", async () => {
+        const history = await plugin.apiClient.getPageHistory(sectionId);
+        expect(history).toHaveLength(3);
+        expect(history.map((revision) => revision.content)).toEqual([undefined, undefined, undefined]);
+
+        const oldest = history[history.length - 1];
+        expect(await plugin.apiClient.getPageRevision(sectionId, oldest.id)).toMatchObject({ content: "처음 내용" });
+    });
+
+    test("로컬 복원은 본문만 바꾸고 서버에는 보내지 않는다", async () => {
+        await plugin.restoreRevisionLocally(section, bookId, "처음 내용");
+
+        expect(await app.vault.read(section)).toMatch(/^---\n[\s\S]*\n---\n처음 내용$/);
+        expect(server.pages.get(sectionId)?.content).toBe("지금 내용");
+    });
+
+    test("서버 복원은 위치와 공개 여부를 유지하고 로컬 파일에 반영한다", async () => {
+        await plugin.restoreRevisionOnServer(section, bookId, syncedPage, "처음 내용");
+
+        expect(server.pages.get(sectionId)).toMatchObject({ content: "처음 내용", parent_id: syncedPage.parent_id, order: 1, open_yn: "Y" });
+        expect(await app.vault.read(section)).toMatch(/\n---\n처음 내용$/);
+        expect(plugin.syncIndex.getPage(bookId, sectionId)?.version).toBe(getServerVersion({ id: sectionId, book_id: bookId, subject: "1-1", content: "처음 내용" }));
+    });
+
+    test("로컬에서 고친 내용은 서버 복원과 병합한다", async () => {
+        await app.vault.modify(section, (await app.vault.read(section)) + "\n\n로컬 문단");
+
+        await plugin.restoreRevisionOnServer(section, bookId, syncedPage, "처음 내용");
+
+        expect(server.pages.get(sectionId)?.content).toBe("처음 내용");
+        expect(await app.vault.read(section)).toMatch(/\n---\n처음 내용\n\n로컬 문단$/);
+    });
+});
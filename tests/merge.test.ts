@@ -0,0 +1,52 @@
+import {
+    CONFLICT_MARKER_LOCAL,
+    CONFLICT_MARKER_SEPARATOR,
+    CONFLICT_MARKER_SERVER,
+    hasConflictMarkers,
+    mergeThreeWay,
+} from "../lib/merge";
+
+describe("mergeThreeWay", () => {
+    test("한쪽만 바뀌었으면 바뀐 쪽을 그대로 쓴다", () => {
+        expect(mergeThreeWay("a\nb", "a\nb", "a\nB")).toEqual({ content: "a\nB", conflicts: 0 });
+        expect(mergeThreeWay("a\nb", "A\nb", "a\nb")).toEqual({ content: "A\nb", conflicts: 0 });
+    });
+
+    test("겹치지 않는 변경은 모두 반영한다", () => {
+        const base = "1\n2\n3\n4\n5";
+        const local = "1 local\n2\n3\n4\n5";
+        const server = "1\n2\n3\n4\n5 server\n6";
+        expect(mergeThreeWay(base, local, server)).toEqual({ content: "1 local\n2\n3\n4\n5 server\n6", conflicts: 0 });
+    });
+
+    test("양쪽이 같게 바꾼 줄은 충돌이 아니다", () => {
+        expect(mergeThreeWay("a\nb\nc", "a\nB\nc\nlocal", "a\nB\nc")).toEqual({ content: "a\nB\nc\nlocal", conflicts: 0 });
+    });
+
+    test("같은 줄을 다르게 바꾸면 conflict marker로 남긴다", () => {
+        const result = mergeThreeWay("a\nb\nc", "a\nlocal\nc", "a\nserver\nc");
+        expect(result.conflicts).toBe(1);
+        expect(result.content).toBe([
+            "a",
+            CONFLICT_MARKER_LOCAL,
+            "local",
+            CONFLICT_MARKER_SEPARATOR,
+            "server",
+            CONFLICT_MARKER_SERVER,
+            "c",
+        ].join("\n"));
+        expect(hasConflictMarkers(result.content)).toBe(true);
+    });
+
+    test("base가 없으면 내용이 다를 때 파일 전체를 충돌로 남긴다", () => {
+        expect(mergeThreeWay(null, "local\n내용", "server")).toEqual({
+            content: [CONFLICT_MARKER_LOCAL, "local", "내용", CONFLICT_MARKER_SEPARATOR, "server", CONFLICT_MARKER_SERVER].join("\n"),
+            conflicts: 1,
+        });
+        expect(mergeThreeWay(null, "same", "same")).toEqual({ content: "same", conflicts: 0 });
+    });
+
+    test("CRLF 줄바꿈도 줄 단위로 병합한다", () => {
+        expect(mergeThreeWay("a\r\nb\r\nc", "A\r\nb\r\nc", "a\r\nb\r\nC")).toEqual({ content: "A\nb\nC", conflicts: 0 });
+    });
+});
@@ -0,0 +1,399 @@
+import { parse, stringify } from "yaml";
+
+// 테스트에서 "obsidian" 모듈 대신 쓰는 최소 구현 (package.json의 jest.moduleNameMapper)
+// vault는 메모리에 파일을 두고, metadataCache는 읽을 때마다 파일 내용에서 Front Matter, 링크, 태그를 다시 구한다.
+
+export function normalizePath(path: string): string {
+    const normalized = path.replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "").replace(/\u00A0|\u202F/g, " ").normalize("NFC");
+    return normalized === "" ? "/" : normalized;
+}
+
+export function parseYaml(yaml: string): unknown {
+    return parse(yaml);
+}
+
+export function stringifyYaml(value: unknown): string {
+    return stringify(value);
+}
+
+export async function requestUrl(): Promise<never> {
+    throw new Error("requestUrl is not available in tests. Pass a FakeWikiDocsServer to ApiClient.");
+}
+
+export function setIcon() {}
+
+export class TAbstractFile {
+    path: string;
+    name: string;
+    parent: TFolder | null = null;
+
+    constructor(path: string) {
+        this.setPath(path);
+    }
+
+    setPath(path: string) {
+        this.path = path;
+        this.name = path.split("/").pop() ?? path;
+    }
+}
+
+export class TFile extends TAbstractFile {
+    basename: string;
+    extension: string;
+    stat = { ctime: Date.now(), mtime: Date.now(), size: 0 };
+
+    setPath(path: string) {
+        super.setPath(path);
+        const dotIndex = this.name.lastIndexOf(".");
+        this.basename = dotIndex > 0 ? this.name.slice(0, dotIndex) : this.name;
+        this.extension = dotIndex > 0 ? this.name.slice(dotIndex + 1) : "";
+    }
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+
+    isRoot(): boolean {
+        return this.parent === null;
+    }
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---(?:\r?\n|$)/;
+
+function splitFrontMatter(content: string): { frontMatter: Record<string, unknown> | undefined; body: string } {
+    const match = content.match(FRONT_MATTER_PATTERN);
+    if (!match) {
+        return { frontMatter: undefined, body: content };
+    }
+    let frontMatter: unknown;
+    try {
+        frontMatter = parse(match[1] ?? "");
+    } catch (error) {
+        frontMatter = undefined;
+    }
+    return {
+        frontMatter: frontMatter && typeof frontMatter === "object" ? frontMatter as Record<string, unknown> : undefined,
+        body: content.slice(match[0].length),
+    };
+}
+
+// vault 밖(.obsidian 폴더)의 파일. 플러그인이 base 내용을 보관한다.
+class MemoryAdapter {
+    files = new Map<string, string>();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path) || [...this.files.keys()].some((filePath) => filePath.startsWith(`${path}/`));
+    }
+
+    async read(path: string): Promise<string> {
+        const content = this.files.get(path);
+        if (content === undefined) {
+            throw new Error(`ENOENT: ${path}`);
+        }
+        return content;
+    }
+
+    async write(path: string, content: string) {
+        this.files.set(path, content);
+    }
+
+    async mkdir() {}
+
+    async remove(path: string) {
+        this.files.delete(path);
+    }
+}
+
+export class Vault {
+    configDir = ".obsidian";
+    adapter = new MemoryAdapter();
+    private root = new TFolder("/");
+    private entries = new Map<string, TAbstractFile>();
+    private contents = new Map<string, string | ArrayBuffer>();
+
+    getRoot(): TFolder {
+        return this.root;
+    }
+
+    getAbstractFileByPath(path: string): TAbstractFile | null {
+        if (path === "" || path === "/") {
+            return this.root;
+        }
+        return this.entries.get(path) ?? null;
+    }
+
+    getFiles(): TFile[] {
+        return [...this.entries.values()].filter((file): file is TFile => file instanceof TFile);
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return this.getFiles().filter((file) => file.extension === "md");
+    }
+
+    async read(file: TFile): Promise<string> {
+        return this.readText(file.path);
+    }
+
+    // metadataCache가 파일 내용을 바로 읽을 때 쓴다. (Obsidian에는 없는 함수)
+    readText(path: string): string {
+        const content = this.contents.get(path);
+        return typeof content === "string" ? content : "";
+    }
+
+    async cachedRead(file: TFile): Promise<string> {
+        return this.read(file);
+    }
+
+    async readBinary(file: TFile): Promise<ArrayBuffer> {
+        const content = this.contents.get(file.path);
+        return content instanceof ArrayBuffer ? content : new TextEncoder().encode(content ?? "").buffer;
+    }
+
+    async create(path: string, content: string): Promise<TFile> {
+        return this.addFile(path, content);
+    }
+
+    async createBinary(path: string, data: ArrayBuffer): Promise<TFile> {
+        return this.addFile(path, data);
+    }
+
+    async createFolder(path: string): Promise<TFolder> {
+        if (this.entries.has(path)) {
+            throw new Error("Folder already exists.");
+        }
+        return this.ensureFolder(path);
+    }
+
+    async modify(file: TFile, content: string) {
+        this.contents.set(file.path, content);
+        file.stat = { ...file.stat, mtime: Date.now(), size: content.length };
+    }
+
+    async rename(file: TAbstractFile, newPath: string) {
+        if (this.entries.has(newPath)) {
+            throw new Error("Destination file already exists!");
+        }
+        const oldPath = file.path;
+        const moved = [...this.entries.values()].filter((entry) => entry === file || entry.path.startsWith(`${oldPath}/`));
+        this.detach(file);
+        for (const entry of moved) {
+            const entryPath = newPath + entry.path.slice(oldPath.length);
+            const content = this.contents.get(entry.path);
+            this.entries.delete(entry.path);
+            this.contents.delete(entry.path);
+            entry.setPath(entryPath);
+            this.entries.set(entryPath, entry);
+            if (content !== undefined) {
+                this.contents.set(entryPath, content);
+            }
+        }
+        this.attach(file);
+    }
+
+    async delete(file: TAbstractFile) {
+        if (file instanceof TFolder) {
+            for (const child of [...file.children]) {
+                await this.delete(child);
+            }
+        }
+        this.detach(file);
+        this.entries.delete(file.path);
+        this.contents.delete(file.path);
+    }
+
+    async trash(file: TAbstractFile) {
+        await this.delete(file);
+    }
+
+    on(): EventRef {
+        return {};
+    }
+
+    private addFile(path: string, content: string | ArrayBuffer): TFile {
+        if (this.entries.has(path)) {
+            throw new Error("File already exists.");
+        }
+        const file = new TFile(path);
+        this.entries.set(path, file);
+        this.contents.set(path, content);
+        this.attach(file);
+        return file;
+    }
+
+    private ensureFolder(path: string): TFolder {
+        const existing = this.getAbstractFileByPath(path);
+        if (existing instanceof TFolder) {
+            return existing;
+        }
+        const folder = new TFolder(path);
+        this.entries.set(path, folder);
+        this.attach(folder);
+        return folder;
+    }
+
+    private attach(file: TAbstractFile) {
+        const parentPath = file.path.includes("/") ? file.path.slice(0, file.path.lastIndexOf("/")) : "/";
+        const parent = this.ensureFolder(parentPath);
+        file.parent = parent;
+        parent.children.push(file);
+    }
+
+    private detach(file: TAbstractFile) {
+        if (file.parent) {
+            file.parent.children = file.parent.children.filter((child) => child !== file);
+        }
+    }
+}
+
+interface LinkCache {
+    link: string;
+    original: string;
+    displayText?: string;
+}
+
+export interface CachedMetadata {
+    frontmatter?: Record<string, unknown>;
+    embeds?: LinkCache[];
+    links?: LinkCache[];
+    tags?: { tag: string }[];
+}
+
+export class MetadataCache {
+    constructor(private vault: Vault) {}
+
+    getFileCache(file: TFile): CachedMetadata | null {
+        if (file.extension !== "md" || !this.vault.getAbstractFileByPath(file.path)) {
+            return null;
+        }
+        const content = this.vault.readText(file.path);
+        const { frontMatter, body } = splitFrontMatter(content);
+        const cache: CachedMetadata = { frontmatter: frontMatter };
+
+        const embeds = [...body.matchAll(/!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g)]
+            .map((match) => ({ link: match[1], original: match[0], displayText: match[2] }));
+        const links = [...body.matchAll(/(?<!!)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g)]
+            .map((match) => ({ link: match[1], original: match[0], displayText: match[2] }));
+        const tags = [...body.matchAll(/(?:^|\s)(#[^\s#.,!?()[\]]+)/g)].map((match) => ({ tag: match[1] }));
+        if (embeds.length > 0) {
+            cache.embeds = embeds;
+        }
+        if (links.length > 0) {
+            cache.links = links;
+        }
+        if (tags.length > 0) {
+            cache.tags = tags;
+        }
+        return cache;
+    }
+
+    getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+        const candidates = [linkpath, `${linkpath}.md`];
+        for (const path of candidates) {
+            const file = this.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                return file;
+            }
+        }
+        return this.vault.getFiles().find((file) => candidates.includes(file.name)) ?? null;
+    }
+
+    fileToLinktext(file: TFile, sourcePath: string, omitMdExtension = true): string {
+        return omitMdExtension && file.extension === "md" ? file.basename : file.name;
+    }
+
+    on(): EventRef {
+        return {};
+    }
+}
+
+export class FileManager {
+    constructor(private vault: Vault) {}
+
+    async processFrontMatter(file: TFile, fn: (frontMatter: Record<string, unknown>) => void) {
+        const { frontMatter, body } = splitFrontMatter(await this.vault.read(file));
+        const updated = frontMatter ?? {};
+        fn(updated);
+        await this.vault.modify(file, `---\n${stringify(updated)}---\n${body}`);
+    }
+
+    async trashFile(file: TAbstractFile) {
+        await this.vault.trash(file);
+    }
+}
+
+export class Workspace {
+    getActiveFile(): TFile | null {
+        return null;
+    }
+
+    getLeaf() {
+        return { openFile: async () => {} };
+    }
+
+    getLeavesOfType(): unknown[] {
+        return [];
+    }
+
+    onLayoutReady(callback: () => void) {
+        callback();
+    }
+
+    on(): EventRef {
+        return {};
+    }
+}
+
+export type EventRef = Record<string, never>;
+
+export class App {
+    vault = new Vault();
+    metadataCache = new MetadataCache(this.vault);
+    fileManager = new FileManager(this.vault);
+    workspace = new Workspace();
+}
+
+// 표시된 알림 (테스트에서 확인한다)
+export class Notice {
+    static messages: string[] = [];
+
+    constructor(message: string) {
+        Notice.messages.push(message);
+    }
+
+    setMessage(message: string) {
+        Notice.messages.push(message);
+    }
+
+    hide() {}
+}
+
+export class Plugin {
+    private data: unknown = null;
+
+    constructor(public app: App, public manifest: { id: string; dir?: string }) {}
+
+    async loadData(): Promise<unknown> {
+        return this.data;
+    }
+
+    async saveData(data: unknown) {
+        this.data = JSON.parse(JSON.stringify(data));
+    }
+
+    addStatusBarItem() {
+        return { toggle() {}, setText() {}, setAttr() {} };
+    }
+}
+
+// 테스트에서 열지 않는 UI 클래스
+export class Modal {
+    constructor(public app: App) {}
+    open() {}
+    close() {}
+}
+
+export class FuzzySuggestModal extends Modal {}
+export class ItemView {}
+export class PluginSettingTab {}
+export class EditorSuggest {}
+export class Setting {}
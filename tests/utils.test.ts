@@ -0,0 +1,20 @@
+import { hashContent } from "../lib/utils";
+
+describe("hashContent", () => {
+    test("16자리 hex를 반환하고 같은 입력에는 같은 값이다", () => {
+        const hash = hashContent("제목", "본문");
+        expect(hash).toMatch(/^[0-9a-f]{16}$/);
+        expect(hashContent("제목", "본문")).toBe(hash);
+    });
+
+    test("줄바꿈, 줄 끝 공백, 앞뒤 공백의 차이는 무시한다", () => {
+        const hash = hashContent("제목", "첫 줄\n둘째 줄");
+        expect(hashContent(" 제목 ", "\n첫 줄  \r\n둘째 줄\n\n")).toBe(hash);
+    });
+
+    test("제목이나 본문이 바뀌면 달라진다", () => {
+        const hash = hashContent("제목", "본문");
+        expect(hashContent("다른 제목", "본문")).not.toBe(hash);
+        expect(hashContent("제목", "다른 본문")).not.toBe(hash);
+    });
+});
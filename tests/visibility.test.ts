@@ -0,0 +1,75 @@
+import { App } from "obsidian";
+
+import WikiDocsPlugin from "../main";
+import { FakeWikiDocsServer } from "../lib/fake-server";
+import { getPageSubtree } from "../lib/md";
+import { HttpRequest } from "../lib/transport";
+import { createPlugin, getFile, getFrontMatter } from "./helpers";
+
+describe("페이지 공개 여부", () => {
+    let server: FakeWikiDocsServer;
+    let plugin: WikiDocsPlugin;
+    let app: App;
+    let bookId: number;
+    let chapterId: number;
+    let sectionId: number;
+
+    beforeEach(async () => {
+        server = new FakeWikiDocsServer({ token: "test" });
+        bookId = server.addBook({ subject: "책" });
+        server.addPage({ book_id: bookId, subject: "0장", content: "" });
+        chapterId = server.addPage({ book_id: bookId, subject: "1장", content: "1장 본문" });
+        sectionId = server.addPage({ book_id: bookId, parent_id: chapterId, subject: "1-1", content: "하위 페이지" });
+        plugin = await createPlugin(server);
+        app = plugin.app;
+        await plugin.downloadBook(bookId, "기본");
+        plugin.settings.sendVisibilityNow = true;
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("하위 페이지까지 비공개로 바꾸고 본문과 위치는 그대로 보낸다", async () => {
+        await plugin.setPageVisibility(getPageSubtree(getFile(app, "책/1장.md")), "N");
+
+        expect(server.pages.get(chapterId)).toMatchObject({ open_yn: "N", content: "1장 본문", parent_id: -1, order: 1 });
+        expect(server.pages.get(sectionId)).toMatchObject({ open_yn: "N", content: "하위 페이지", parent_id: chapterId });
+        expect(getFrontMatter(app, getFile(app, "책/1장/1-1.md")).open_yn).toBe("N");
+        expect(plugin.syncIndex.getPage(bookId, sectionId)?.open_yn).toBe("N");
+    });
+
+    test("목차에 본문이 없어도 페이지의 본문을 비우지 않는다", async () => {
+        // 목차(/books/{id}/) 응답에서 본문을 뺀다.
+        const request = server.request.bind(server);
+        jest.spyOn(server, "request").mockImplementation(async (httpRequest: HttpRequest) => {
+            const response = await request(httpRequest);
+            if (/\/books\/\d+\/$/.test(httpRequest.url)) {
+                response.text = response.text.replace(/"content":"[^"]*",?/g, "");
+            }
+            return response;
+        });
+
+        await plugin.setPageVisibility([getFile(app, "책/1장.md")], "N");
+
+        expect(server.pages.get(chapterId)).toMatchObject({ open_yn: "N", content: "1장 본문" });
+    });
+
+    test("공개 여부가 같은 페이지는 다시 저장하지 않는다", async () => {
+        const revisionCount = server.revisions.length;
+
+        await plugin.setPageVisibility([getFile(app, "책/1장.md")], "Y");
+
+        expect(server.revisions).toHaveLength(revisionCount);
+    });
+
+    test("아직 보내지 않은 페이지는 다음 보내기에서 공개 여부와 함께 보낸다", async () => {
+        const file = await app.vault.create("책/2장.md", "새 페이지");
+
+        await plugin.setPageVisibility([file], "N");
+        expect([...server.pages.values()].some((page) => page.subject === "2장")).toBe(false);
+
+        await plugin.syncToServer(plugin.app.vault.getRoot().children.find((child) => child.name === "책") as never, { auto: true });
+        expect([...server.pages.values()].find((page) => page.subject === "2장")).toMatchObject({ open_yn: "N", content: "새 페이지" });
+    });
+});